@@ -0,0 +1,426 @@
+"use client";
+
+import { useState } from "react";
+import {
+  BarChart3,
+  ExternalLink,
+  Loader2,
+  Settings,
+  ShieldCheck,
+  Wallet,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import type { Transaction } from "@mysten/sui/transactions";
+import { toast } from "sonner";
+import { DEMO_TOKENS, getAccountUrl, getObjectUrl, getTxUrl } from "@/lib/sui/constants";
+import { getTokenSymbolFromType, type PoolFeeAccumulatorState } from "@/lib/sui/client";
+import { formatTokenAmount } from "@/lib/sui/transactions";
+import {
+  useAmmClient,
+  useFeeAccumulators,
+  useFeeDistributor,
+  useFeeDistributorAdminCap,
+  usePrices,
+} from "@/lib/sui/queries";
+import { getPairUsdValue } from "@/lib/sui/pricing";
+import { formatUsd } from "@/lib/mock-data";
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/** Format one side of an accumulator amount, falling back to raw units for unknown coins */
+function formatSide(amount: bigint, coinType: string): string {
+  const symbol = getTokenSymbolFromType(coinType);
+  return symbol
+    ? `${formatTokenAmount(amount, DEMO_TOKENS[symbol].decimals)} ${symbol}`
+    : amount.toString();
+}
+
+export default function FeeDistributorAdminPage() {
+  const account = useCurrentAccount();
+  const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const amm = useAmmClient();
+  const { data: adminCapId, isLoading: isLoadingCap } = useFeeDistributorAdminCap();
+  const { data: distributor, refetch: refetchDistributor } = useFeeDistributor();
+  const { data: accumulators, refetch: refetchAccumulators } = useFeeAccumulators();
+  const { data: prices } = usePrices();
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [recipientInput, setRecipientInput] = useState("");
+  const [minClaimInput, setMinClaimInput] = useState("");
+
+  const accumulatorList = accumulators ?? [];
+  const withdrawable = accumulatorList.filter((acc) => acc.accumulatedFeesA > 0n || acc.accumulatedFeesB > 0n);
+
+  const usdValue = (acc: PoolFeeAccumulatorState, amountA: bigint, amountB: bigint) => {
+    const tokenA = getTokenSymbolFromType(acc.coinAType);
+    const tokenB = getTokenSymbolFromType(acc.coinBType);
+    return tokenA && tokenB ? getPairUsdValue(prices, tokenA, amountA, tokenB, amountB) : 0;
+  };
+  const totalDistributedUsd = accumulatorList.reduce(
+    (sum, acc) => sum + usdValue(acc, acc.totalDistributedA, acc.totalDistributedB),
+    0
+  );
+  const pendingUsd = accumulatorList.reduce(
+    (sum, acc) => sum + usdValue(acc, acc.accumulatedFeesA, acc.accumulatedFeesB),
+    0
+  );
+
+  const recipientError = !recipientInput
+    ? null
+    : !isValidSuiAddress(recipientInput)
+    ? "Enter a full Sui address (0x followed by 64 hex characters)"
+    : distributor && normalizeSuiAddress(recipientInput) === normalizeSuiAddress(distributor.protocolFeeRecipient)
+    ? "This is already the fee recipient"
+    : null;
+  const minClaimError = !minClaimInput
+    ? null
+    : !/^\d+$/.test(minClaimInput)
+    ? "Enter a whole number of raw token units"
+    : null;
+
+  const refresh = () => {
+    refetchDistributor();
+    refetchAccumulators();
+  };
+
+  const execute = (key: string, tx: Transaction, title: string, description: string) => {
+    setPendingAction(key);
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success(title, {
+            description,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refresh();
+          setPendingAction(null);
+        },
+        onError: (error) => {
+          toast.error("Admin transaction failed", {
+            description: error.message,
+          });
+          setPendingAction(null);
+        },
+      }
+    );
+  };
+
+  const handleToggleAutoCompound = () => {
+    if (!adminCapId || !distributor) return;
+    const enabled = !distributor.autoCompoundDefault;
+
+    execute(
+      "autoCompound",
+      amm.buildSetAutoCompoundDefault({ adminCapId, enabled }),
+      "Auto-Compound Default Updated",
+      `New positions ${enabled ? "auto-compound" : "do not auto-compound"} by default`
+    );
+  };
+
+  const handleUpdateMinClaim = () => {
+    if (!adminCapId || !minClaimInput || minClaimError) return;
+    const amount = BigInt(minClaimInput);
+
+    execute(
+      "minClaim",
+      amm.buildSetMinClaimAmount({ adminCapId, amount }),
+      "Minimum Claim Updated",
+      `Positions need at least ${amount.toString()} units to claim`
+    );
+    setMinClaimInput("");
+  };
+
+  const handleUpdateRecipient = () => {
+    if (!adminCapId || !recipientInput || recipientError) return;
+    const recipient = normalizeSuiAddress(recipientInput);
+
+    execute(
+      "recipient",
+      amm.buildSetDistributorFeeRecipient({ adminCapId, recipient }),
+      "Fee Recipient Updated",
+      `Distributor fees now go to ${shortAddress(recipient)}`
+    );
+    setRecipientInput("");
+  };
+
+  const handleWithdrawAll = () => {
+    if (!adminCapId || !distributor || withdrawable.length === 0) return;
+
+    try {
+      const tx = amm.buildWithdrawAccumulatedFees({
+        adminCapId,
+        accumulators: withdrawable.map((acc) => ({ coinAType: acc.coinAType, coinBType: acc.coinBType, accumulatorId: acc.id })),
+        recipient: distributor.protocolFeeRecipient,
+      });
+
+      execute(
+        "withdraw",
+        tx,
+        "Accumulated Fees Withdrawn",
+        `Withdrew from ${withdrawable.length} accumulator${withdrawable.length === 1 ? "" : "s"} to ${shortAddress(distributor.protocolFeeRecipient)}`
+      );
+    } catch (error) {
+      toast.error("Failed to build transaction", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <Wallet className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Connect Your Wallet</h2>
+            <p className="text-[#8b92a5] mb-6">
+              Connect the wallet holding the FeeDistributorAdminCap to manage fee distribution
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoadingCap) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 text-[#00d4aa] animate-spin" />
+      </div>
+    );
+  }
+
+  if (!adminCapId) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <ShieldCheck className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Admin Access Required</h2>
+            <p className="text-[#8b92a5]">
+              This wallet does not own a FeeDistributorAdminCap
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">Fee Distributor</h1>
+        <p className="text-[#8b92a5] text-sm">
+          Fee accumulator reporting and distribution settings
+        </p>
+      </div>
+
+      {/* Overview */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card className="glass-card border-white/5">
+          <CardContent className="p-4">
+            <div className="text-sm text-[#8b92a5] mb-1">Accumulators</div>
+            <div className="text-xl font-bold font-mono text-white">{accumulatorList.length}</div>
+          </CardContent>
+        </Card>
+        <Card className="glass-card border-white/5">
+          <CardContent className="p-4">
+            <div className="text-sm text-[#8b92a5] mb-1">Total Distributed</div>
+            <div className="text-xl font-bold font-mono text-white">{formatUsd(totalDistributedUsd)}</div>
+          </CardContent>
+        </Card>
+        <Card className="glass-card border-white/5">
+          <CardContent className="p-4">
+            <div className="text-sm text-[#8b92a5] mb-1">Awaiting Withdrawal</div>
+            <div className="text-xl font-bold font-mono text-[#00d4aa]">{formatUsd(pendingUsd)}</div>
+          </CardContent>
+        </Card>
+        <Card className="glass-card border-white/5">
+          <CardContent className="p-4">
+            <div className="text-sm text-[#8b92a5] mb-1">Min Claim Amount</div>
+            <div className="text-xl font-bold font-mono text-white">
+              {distributor ? distributor.minClaimAmount.toString() : "-"}
+            </div>
+            <div className="text-xs text-[#8b92a5] mt-1">raw units</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Settings */}
+      <Card className="glass-card border-white/5">
+        <CardHeader>
+          <CardTitle className="text-lg text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-[#00d4aa]" />
+            Settings
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm text-white">Auto-compound by default</div>
+              <div className="text-xs text-[#8b92a5]">Applied to positions that have not chosen</div>
+            </div>
+            <div className="flex items-center gap-3">
+              {distributor && (
+                <Badge className={distributor.autoCompoundDefault ? "bg-[#00d4aa]/10 text-[#00d4aa]" : "bg-white/5 text-[#8b92a5]"}>
+                  {distributor.autoCompoundDefault ? "On" : "Off"}
+                </Badge>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleToggleAutoCompound}
+                disabled={!distributor || isPending}
+                className="border-white/10 text-white hover:bg-white/5"
+              >
+                {pendingAction === "autoCompound" ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : distributor?.autoCompoundDefault ? (
+                  "Turn Off"
+                ) : (
+                  "Turn On"
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <Separator className="bg-white/5" />
+
+          <div className="space-y-2">
+            <div className="text-sm text-white">Minimum claim amount</div>
+            <div className="flex gap-2">
+              <Input
+                placeholder={distributor?.minClaimAmount.toString() ?? "0"}
+                value={minClaimInput}
+                onChange={(e) => setMinClaimInput(e.target.value.trim())}
+                className="bg-[#0a0e1a] border-white/10 text-white font-mono placeholder:text-[#4a5068]"
+              />
+              <Button
+                onClick={handleUpdateMinClaim}
+                disabled={!minClaimInput || !!minClaimError || isPending}
+                className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+              >
+                {pendingAction === "minClaim" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Update"}
+              </Button>
+            </div>
+            {minClaimError && <p className="text-xs text-[#ff4757]">{minClaimError}</p>}
+          </div>
+
+          <Separator className="bg-white/5" />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-white">Protocol fee recipient</div>
+              {distributor && (
+                <a
+                  href={getAccountUrl(distributor.protocolFeeRecipient)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm font-mono text-[#8b92a5] hover:text-[#00d4aa] flex items-center gap-1"
+                >
+                  {shortAddress(distributor.protocolFeeRecipient)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="0x..."
+                value={recipientInput}
+                onChange={(e) => setRecipientInput(e.target.value.trim())}
+                className="bg-[#0a0e1a] border-white/10 text-white font-mono placeholder:text-[#4a5068]"
+              />
+              <Button
+                onClick={handleUpdateRecipient}
+                disabled={!recipientInput || !!recipientError || isPending}
+                className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+              >
+                {pendingAction === "recipient" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Update"}
+              </Button>
+            </div>
+            {recipientError && <p className="text-xs text-[#ff4757]">{recipientError}</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Accumulators */}
+      <Card className="glass-card border-white/5 overflow-hidden">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg text-white flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-[#00d4aa]" />
+            Pool Fee Accumulators
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={handleWithdrawAll}
+            disabled={withdrawable.length === 0 || !distributor || isPending}
+            className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+          >
+            {pendingAction === "withdraw" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Withdraw All ({withdrawable.length})
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="hidden md:grid grid-cols-12 gap-4 px-4 pb-3 border-b border-white/5 text-sm text-[#8b92a5]">
+            <div className="col-span-3">Pool</div>
+            <div className="col-span-3 text-right">Accumulated</div>
+            <div className="col-span-3 text-right">Total Distributed</div>
+            <div className="col-span-3 text-right">Last Update</div>
+          </div>
+
+          <div className="divide-y divide-white/5">
+            {accumulatorList.length === 0 && (
+              <div className="p-8 text-center text-[#8b92a5]">No fee accumulators found</div>
+            )}
+            {accumulatorList.map((acc) => {
+              const tokenA = getTokenSymbolFromType(acc.coinAType);
+              const tokenB = getTokenSymbolFromType(acc.coinBType);
+
+              return (
+                <div key={acc.id} className="grid grid-cols-2 md:grid-cols-12 gap-4 p-4 items-center">
+                  <div className="md:col-span-3">
+                    <a
+                      href={getObjectUrl(acc.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-semibold text-white hover:text-[#00d4aa] flex items-center gap-1"
+                    >
+                      {tokenA && tokenB ? `${tokenA}/${tokenB}` : shortAddress(acc.id)}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                    <div className="text-xs font-mono text-[#8b92a5]">Pool {shortAddress(acc.poolId)}</div>
+                  </div>
+                  <div className="md:col-span-3 text-right font-mono text-sm text-white">
+                    <div>{formatSide(acc.accumulatedFeesA, acc.coinAType)}</div>
+                    <div>{formatSide(acc.accumulatedFeesB, acc.coinBType)}</div>
+                  </div>
+                  <div className="md:col-span-3 text-right font-mono text-sm text-white">
+                    <div>{formatSide(acc.totalDistributedA, acc.coinAType)}</div>
+                    <div>{formatSide(acc.totalDistributedB, acc.coinBType)}</div>
+                  </div>
+                  <div className="md:col-span-3 text-right text-sm text-[#8b92a5]">
+                    {acc.lastUpdate > 0 ? new Date(acc.lastUpdate).toLocaleString() : "Never"}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
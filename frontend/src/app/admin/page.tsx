@@ -0,0 +1,452 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  BarChart3,
+  Coins,
+  ExternalLink,
+  Loader2,
+  Pause,
+  Play,
+  Settings,
+  ShieldCheck,
+  TrendingUp,
+  Wallet,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
+import type { Transaction } from "@mysten/sui/transactions";
+import { toast } from "sonner";
+import { DEMO_TOKENS, getAccountUrl, getObjectUrl, getTxUrl } from "@/lib/sui/constants";
+import { formatTokenAmount } from "@/lib/sui/transactions";
+import {
+  useAllPools,
+  useAmmClient,
+  useEventHistory,
+  usePoolFactory,
+  usePoolFactoryAdminCap,
+  useProtocolFees,
+} from "@/lib/sui/queries";
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export default function AdminPage() {
+  const account = useCurrentAccount();
+  const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const amm = useAmmClient();
+  const { data: adminCapId, isLoading: isLoadingCap } = usePoolFactoryAdminCap();
+  const { data: factory, refetch: refetchFactory } = usePoolFactory();
+  const { data: allPools, refetch: refetchPools } = useAllPools();
+  const { data: collections, refetch: refetchCollections } = useEventHistory("ProtocolFeesCollected");
+
+  const factoryPools = useMemo(() => (allPools ?? []).filter((pool) => !pool.stable), [allPools]);
+  const stablePoolCount = (allPools ?? []).length - factoryPools.length;
+  const { data: protocolFees, refetch: refetchProtocolFees } = useProtocolFees(factoryPools);
+
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const [recipientInput, setRecipientInput] = useState("");
+
+  const collectablePools = factoryPools.filter((pool) => {
+    const fees = protocolFees?.[pool.id];
+    return !!fees && (fees.feesA > 0n || fees.feesB > 0n);
+  });
+
+  const recipientError = !recipientInput
+    ? null
+    : !isValidSuiAddress(recipientInput)
+    ? "Enter a full Sui address (0x followed by 64 hex characters)"
+    : factory && normalizeSuiAddress(recipientInput) === normalizeSuiAddress(factory.protocolFeeRecipient)
+    ? "This is already the fee recipient"
+    : null;
+
+  const recentCollections = [...(collections ?? [])]
+    .sort((a, b) => (b.timestampMs ?? 0) - (a.timestampMs ?? 0))
+    .slice(0, 10);
+
+  const refresh = () => {
+    refetchFactory();
+    refetchPools();
+    refetchProtocolFees();
+    refetchCollections();
+  };
+
+  const execute = (key: string, tx: Transaction, title: string, description: string) => {
+    setPendingAction(key);
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success(title, {
+            description,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refresh();
+          setPendingAction(null);
+        },
+        onError: (error) => {
+          toast.error("Admin transaction failed", {
+            description: error.message,
+          });
+          setPendingAction(null);
+        },
+      }
+    );
+  };
+
+  const handleTogglePool = (pool: (typeof factoryPools)[number]) => {
+    if (!adminCapId) return;
+    const paused = !pool.isPaused;
+
+    execute(
+      `pause:${pool.id}`,
+      amm.buildSetPoolPaused({
+        adminCapId,
+        pool: { coinAType: pool.coinAType, coinBType: pool.coinBType, poolId: pool.id },
+        paused,
+      }),
+      paused ? "Pool Paused" : "Pool Unpaused",
+      `${pool.tokenA}/${pool.tokenB} ${paused ? "no longer accepts swaps or deposits" : "is trading again"}`
+    );
+  };
+
+  const handleToggleCreation = () => {
+    if (!adminCapId || !factory) return;
+    const paused = !factory.creationPaused;
+
+    execute(
+      "creation",
+      amm.buildSetCreationPaused({ adminCapId, paused }),
+      paused ? "Pool Creation Paused" : "Pool Creation Resumed",
+      paused ? "New pools can no longer be created" : "Anyone can create pools again"
+    );
+  };
+
+  const handleUpdateRecipient = () => {
+    if (!adminCapId || !recipientInput || recipientError) return;
+    const recipient = normalizeSuiAddress(recipientInput);
+
+    execute(
+      "recipient",
+      amm.buildSetProtocolFeeRecipient({ adminCapId, recipient }),
+      "Fee Recipient Updated",
+      `Protocol fees now go to ${shortAddress(recipient)}`
+    );
+    setRecipientInput("");
+  };
+
+  const handleCollectAll = () => {
+    if (!adminCapId || !factory || collectablePools.length === 0) return;
+
+    try {
+      const tx = amm.buildCollectProtocolFees({
+        adminCapId,
+        pools: collectablePools.map((pool) => ({ coinAType: pool.coinAType, coinBType: pool.coinBType, poolId: pool.id })),
+        recipient: factory.protocolFeeRecipient,
+      });
+
+      execute(
+        "collect",
+        tx,
+        "Protocol Fees Collected",
+        `Collected from ${collectablePools.length} pool${collectablePools.length === 1 ? "" : "s"} to ${shortAddress(factory.protocolFeeRecipient)}`
+      );
+    } catch (error) {
+      toast.error("Failed to build transaction", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  };
+
+  if (!account) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <Wallet className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Connect Your Wallet</h2>
+            <p className="text-[#8b92a5] mb-6">
+              Connect the wallet holding the PoolFactoryAdminCap to manage pools
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoadingCap) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 text-[#00d4aa] animate-spin" />
+      </div>
+    );
+  }
+
+  if (!adminCapId) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <ShieldCheck className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Admin Access Required</h2>
+            <p className="text-[#8b92a5] mb-6">
+              This wallet does not own a PoolFactoryAdminCap
+            </p>
+            <div className="flex justify-center gap-2">
+              <Link href="/admin/stable">
+                <Button variant="outline" className="border-white/10 text-white hover:bg-white/5">
+                  <TrendingUp className="w-4 h-4 mr-2" />
+                  Stable pool admin
+                </Button>
+              </Link>
+              <Link href="/admin/fees">
+                <Button variant="outline" className="border-white/10 text-white hover:bg-white/5">
+                  <BarChart3 className="w-4 h-4 mr-2" />
+                  Fee distributor admin
+                </Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Protocol Admin</h1>
+          <p className="text-[#8b92a5] text-sm">
+            Manage pools, protocol fees and pool creation
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {stablePoolCount > 0 && (
+            <Link href="/admin/stable">
+              <Button variant="outline" className="border-white/10 text-white hover:bg-white/5">
+                <TrendingUp className="w-4 h-4 mr-2" />
+                Amplification Ramps
+              </Button>
+            </Link>
+          )}
+          <Link href="/admin/fees">
+            <Button variant="outline" className="border-white/10 text-white hover:bg-white/5">
+              <BarChart3 className="w-4 h-4 mr-2" />
+              Fee Distributor
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {/* Factory Settings */}
+      <Card className="glass-card border-white/5">
+        <CardHeader>
+          <CardTitle className="text-lg text-white flex items-center gap-2">
+            <Settings className="w-5 h-5 text-[#00d4aa]" />
+            Pool Factory
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm text-white">Pool creation</div>
+              <div className="text-xs text-[#8b92a5]">
+                {factory ? `${factory.totalPools} pools created` : "Loading..."}
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              {factory && (
+                <Badge className={factory.creationPaused ? "bg-[#ff4757]/10 text-[#ff4757]" : "bg-[#00d4aa]/10 text-[#00d4aa]"}>
+                  {factory.creationPaused ? "Paused" : "Open"}
+                </Badge>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleToggleCreation}
+                disabled={!factory || isPending}
+                className="border-white/10 text-white hover:bg-white/5"
+              >
+                {pendingAction === "creation" ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : factory?.creationPaused ? (
+                  <><Play className="w-4 h-4 mr-1" />Resume</>
+                ) : (
+                  <><Pause className="w-4 h-4 mr-1" />Pause</>
+                )}
+              </Button>
+            </div>
+          </div>
+
+          <Separator className="bg-white/5" />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-white">Protocol fee recipient</div>
+              {factory && (
+                <a
+                  href={getAccountUrl(factory.protocolFeeRecipient)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm font-mono text-[#8b92a5] hover:text-[#00d4aa] flex items-center gap-1"
+                >
+                  {shortAddress(factory.protocolFeeRecipient)}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                placeholder="0x..."
+                value={recipientInput}
+                onChange={(e) => setRecipientInput(e.target.value.trim())}
+                className="bg-[#0a0e1a] border-white/10 text-white font-mono placeholder:text-[#4a5068]"
+              />
+              <Button
+                onClick={handleUpdateRecipient}
+                disabled={!recipientInput || !!recipientError || isPending}
+                className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+              >
+                {pendingAction === "recipient" ? <Loader2 className="w-4 h-4 animate-spin" /> : "Update"}
+              </Button>
+            </div>
+            {recipientError && <p className="text-xs text-[#ff4757]">{recipientError}</p>}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Pools */}
+      <Card className="glass-card border-white/5 overflow-hidden">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="text-lg text-white flex items-center gap-2">
+            <Coins className="w-5 h-5 text-[#00d4aa]" />
+            Pools
+          </CardTitle>
+          <Button
+            size="sm"
+            onClick={handleCollectAll}
+            disabled={collectablePools.length === 0 || !factory || isPending}
+            className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+          >
+            {pendingAction === "collect" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Collect All ({collectablePools.length})
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="hidden md:grid grid-cols-12 gap-4 px-4 pb-3 border-b border-white/5 text-sm text-[#8b92a5]">
+            <div className="col-span-3">Pool</div>
+            <div className="col-span-2">Status</div>
+            <div className="col-span-5 text-right">Protocol Fees</div>
+            <div className="col-span-2"></div>
+          </div>
+
+          <div className="divide-y divide-white/5">
+            {factoryPools.length === 0 && (
+              <div className="p-8 text-center text-[#8b92a5]">No pools found</div>
+            )}
+            {factoryPools.map((pool) => {
+              const fees = protocolFees?.[pool.id];
+
+              return (
+                <div key={pool.id} className="grid grid-cols-2 md:grid-cols-12 gap-4 p-4 items-center">
+                  <div className="md:col-span-3">
+                    <a
+                      href={getObjectUrl(pool.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-semibold text-white hover:text-[#00d4aa] flex items-center gap-1"
+                    >
+                      {pool.tokenA}/{pool.tokenB}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                    <div className="text-xs text-[#8b92a5]">{(pool.feeTier / 100).toFixed(2)}% fee</div>
+                  </div>
+                  <div className="md:col-span-2">
+                    <Badge className={pool.isPaused ? "bg-[#ff4757]/10 text-[#ff4757]" : "bg-[#00d4aa]/10 text-[#00d4aa]"}>
+                      {pool.isPaused ? "Paused" : "Active"}
+                    </Badge>
+                  </div>
+                  <div className="md:col-span-5 text-right font-mono text-sm text-white">
+                    {fees ? (
+                      <>
+                        <div>{formatTokenAmount(fees.feesA, DEMO_TOKENS[pool.tokenA].decimals)} {pool.tokenA}</div>
+                        <div>{formatTokenAmount(fees.feesB, DEMO_TOKENS[pool.tokenB].decimals)} {pool.tokenB}</div>
+                      </>
+                    ) : (
+                      <span className="text-[#8b92a5]">-</span>
+                    )}
+                  </div>
+                  <div className="md:col-span-2 flex justify-end">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleTogglePool(pool)}
+                      disabled={isPending}
+                      className={pool.isPaused
+                        ? "border-[#00d4aa]/30 text-[#00d4aa] hover:bg-[#00d4aa]/10"
+                        : "border-[#ff4757]/30 text-[#ff4757] hover:bg-[#ff4757]/10"}
+                    >
+                      {pendingAction === `pause:${pool.id}` ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : pool.isPaused ? (
+                        <><Play className="w-4 h-4 mr-1" />Unpause</>
+                      ) : (
+                        <><Pause className="w-4 h-4 mr-1" />Pause</>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Collection History */}
+      {recentCollections.length > 0 && (
+        <Card className="glass-card border-white/5">
+          <CardHeader>
+            <CardTitle className="text-lg text-white">Collection History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {recentCollections.map((event) => {
+              const pool = factoryPools.find((p) => p.id === event.poolId);
+
+              return (
+                <div key={`${event.txDigest}-${event.eventSeq}`} className="flex justify-between text-sm">
+                  <a
+                    href={getTxUrl(event.txDigest)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#8b92a5] hover:text-[#00d4aa] flex items-center gap-1"
+                  >
+                    {event.timestampMs !== null ? new Date(event.timestampMs).toLocaleString() : "Pending"}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                  <span className="font-mono text-white">
+                    {pool
+                      ? `${formatTokenAmount(event.amountA, DEMO_TOKENS[pool.tokenA].decimals)} ${pool.tokenA} + ${formatTokenAmount(event.amountB, DEMO_TOKENS[pool.tokenB].decimals)} ${pool.tokenB}`
+                      : shortAddress(event.poolId)}
+                  </span>
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
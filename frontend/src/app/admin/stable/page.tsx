@@ -0,0 +1,469 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Activity,
+  Loader2,
+  ShieldCheck,
+  Square,
+  TrendingUp,
+  Wallet,
+  Info,
+  AlertCircle,
+} from "lucide-react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { toast } from "sonner";
+import { STABLE_AMPLIFICATION, getTxUrl } from "@/lib/sui/constants";
+import { useAllPools, useAmmClient, useStablePool, useStableSwapAdminCap } from "@/lib/sui/queries";
+import { getCurrentAmplification, getRampedAmplification, type AmplificationRamp } from "@/lib/sui/stable-swap";
+import { formatNumber } from "@/lib/mock-data";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DURATION_PRESETS = [
+  { label: "1h", ms: HOUR_MS },
+  { label: "1d", ms: 24 * HOUR_MS },
+  { label: "3d", ms: 3 * 24 * HOUR_MS },
+  { label: "7d", ms: 7 * 24 * HOUR_MS },
+];
+
+/** Number of points sampled along a ramp for the chart */
+const CHART_POINTS = 60;
+
+/** Format ms as the value of a datetime-local input (local time) */
+function toLocalInput(ms: number): string {
+  const date = new Date(ms - new Date(ms).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+}
+
+function formatTime(ms: number): string {
+  return new Date(ms).toLocaleString();
+}
+
+/**
+ * Sample the A the pool applies, the on-chain ramp's schedule and, if given, a new ramp
+ * starting at `nowMs`
+ */
+function buildRampSeries(ramp: AmplificationRamp, nowMs: number, scheduled: AmplificationRamp | null) {
+  const starts = [nowMs - HOUR_MS];
+  const ends = [nowMs + HOUR_MS];
+  if (ramp.rampEndTime > 0) {
+    starts.push(ramp.rampStartTime);
+    ends.push(ramp.rampEndTime + HOUR_MS);
+  }
+  if (scheduled) {
+    ends.push(scheduled.rampEndTime + HOUR_MS);
+  }
+
+  const from = Math.min(...starts);
+  const to = Math.max(...ends);
+  const step = (to - from) / CHART_POINTS;
+
+  return Array.from({ length: CHART_POINTS + 1 }, (_, i) => {
+    const time = from + step * i;
+    return {
+      time,
+      effective: getCurrentAmplification(ramp),
+      ramped: ramp.rampEndTime > 0 ? getRampedAmplification(ramp, time) : null,
+      future: ramp.futureAmplification,
+      scheduled: scheduled && time >= nowMs ? getRampedAmplification(scheduled, time) : null,
+    };
+  });
+}
+
+export default function StableAdminPage() {
+  const account = useCurrentAccount();
+  const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const amm = useAmmClient();
+  const { data: adminCapId, isLoading: isLoadingCap } = useStableSwapAdminCap();
+  const { data: allPools, refetch: refetchPools } = useAllPools();
+
+  const stablePools = useMemo(() => (allPools ?? []).filter((pool) => !!pool.stable), [allPools]);
+
+  const [selectedPoolId, setSelectedPoolId] = useState<string>("");
+  const poolId = selectedPoolId || stablePools[0]?.id;
+  const poolSummary = stablePools.find((pool) => pool.id === poolId);
+  const { data: livePool, refetch: refetchPool } = useStablePool(poolId);
+  const ramp = livePool?.stable ?? poolSummary?.stable;
+
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const [targetA, setTargetA] = useState("");
+  const [rampEnd, setRampEnd] = useState(() => toLocalInput(Date.now() + 24 * HOUR_MS));
+  const [action, setAction] = useState<"ramp" | "stop" | null>(null);
+
+  const target = Number(targetA);
+  const endMs = new Date(rampEnd).getTime();
+  const durationMs = endMs - nowMs;
+
+  const targetError = !targetA
+    ? null
+    : !Number.isInteger(target) || target < STABLE_AMPLIFICATION.MIN || target > STABLE_AMPLIFICATION.MAX
+      ? `Target A must be a whole number between ${STABLE_AMPLIFICATION.MIN} and ${formatNumber(STABLE_AMPLIFICATION.MAX, 0)}`
+      : null;
+  const endError = Number.isNaN(endMs) || durationMs <= 0 ? "End time must be in the future" : null;
+  const canRamp = !!targetA && !targetError && !endError && !!ramp && !!adminCapId;
+
+  // Swaps use the stored A; the interpolated value is only where the schedule would be
+  const currentA = ramp ? getCurrentAmplification(ramp) : 0;
+  const rampedA = ramp ? getRampedAmplification(ramp, nowMs) : 0;
+  const isRamping = !!ramp && ramp.rampEndTime > 0 && ramp.futureAmplification !== ramp.amplification;
+  const rampProgress = ramp && isRamping
+    ? Math.min(100, Math.max(0, ((nowMs - ramp.rampStartTime) / (ramp.rampEndTime - ramp.rampStartTime)) * 100))
+    : 0;
+
+  const chartData = useMemo(() => {
+    if (!ramp) return [];
+    // The ramp starts from the currently stored A once the transaction executes
+    const scheduled = canRamp
+      ? { amplification: ramp.amplification, futureAmplification: target, rampStartTime: nowMs, rampEndTime: endMs }
+      : null;
+    return buildRampSeries(ramp, nowMs, scheduled);
+  }, [ramp, nowMs, canRamp, target, endMs]);
+
+  const refresh = () => {
+    refetchPool();
+    refetchPools();
+  };
+
+  const execute = (kind: "ramp" | "stop") => {
+    if (!adminCapId || !poolSummary) return;
+
+    const pool = { coinAType: poolSummary.coinAType, coinBType: poolSummary.coinBType, poolId: poolSummary.id };
+    const tx = kind === "ramp"
+      ? amm.buildRampAmplification({ adminCapId, pool, targetAmplification: target, durationMs })
+      : amm.buildStopRamp({ adminCapId, pool });
+
+    setAction(kind);
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success(kind === "ramp" ? "Ramp Scheduled" : "Ramp Stopped", {
+            description: kind === "ramp"
+              ? `A ramps to ${formatNumber(target, 0)} by ${formatTime(endMs)}`
+              : `${poolSummary.tokenA}/${poolSummary.tokenB} amplification is fixed again`,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          if (kind === "ramp") setTargetA("");
+          refresh();
+          setAction(null);
+        },
+        onError: (error) => {
+          toast.error(kind === "ramp" ? "Ramp failed" : "Stop ramp failed", {
+            description: error.message,
+          });
+          setAction(null);
+        },
+      }
+    );
+  };
+
+  if (!account) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <Wallet className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Connect Your Wallet</h2>
+            <p className="text-[#8b92a5] mb-6">
+              Connect the wallet holding the StableSwapAdminCap to manage amplification
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoadingCap) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 className="w-8 h-8 text-[#00d4aa] animate-spin" />
+      </div>
+    );
+  }
+
+  if (!adminCapId) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-16 text-center">
+            <ShieldCheck className="w-16 h-16 text-[#8b92a5] mx-auto mb-4" />
+            <h2 className="text-xl font-bold text-white mb-2">Admin Access Required</h2>
+            <p className="text-[#8b92a5]">
+              This wallet does not own a StableSwapAdminCap
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Amplification Ramps</h1>
+          <p className="text-[#8b92a5] text-sm">
+            Move a stable pool&apos;s A coefficient over time
+          </p>
+        </div>
+        <Select value={poolId ?? ""} onValueChange={setSelectedPoolId}>
+          <SelectTrigger className="w-56 bg-[#0a0e1a] border-white/10 text-white">
+            <SelectValue placeholder="Select stable pool" />
+          </SelectTrigger>
+          <SelectContent className="bg-[#0f1629] border-white/10">
+            {stablePools.map((pool) => (
+              <SelectItem key={pool.id} value={pool.id} className="text-white">
+                {pool.tokenA}/{pool.tokenB} · {(pool.feeTier / 100).toFixed(2)}%
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!ramp ? (
+        <Card className="glass-card border-white/5">
+          <CardContent className="py-12 text-center text-[#8b92a5]">
+            No stable pools found
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* Ramp Overview */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card className="glass-card border-white/5">
+              <CardContent className="p-4">
+                <div className="text-sm text-[#8b92a5] mb-1">Current A</div>
+                <div className="text-xl font-bold font-mono text-white">{formatNumber(currentA, 0)}</div>
+                <div className="text-xs text-[#8b92a5] mt-1">
+                  {isRamping ? `Schedule: ${formatNumber(rampedA, 0)}` : "Used by swaps"}
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="glass-card border-white/5">
+              <CardContent className="p-4">
+                <div className="text-sm text-[#8b92a5] mb-1">Future A</div>
+                <div className="text-xl font-bold font-mono text-[#00d4aa]">{formatNumber(ramp.futureAmplification, 0)}</div>
+              </CardContent>
+            </Card>
+            <Card className="glass-card border-white/5">
+              <CardContent className="p-4">
+                <div className="text-sm text-[#8b92a5] mb-1">Status</div>
+                {isRamping ? (
+                  <Badge className={nowMs < ramp.rampEndTime ? "bg-[#f59e0b]/10 text-[#f59e0b]" : "bg-[#00d4aa]/10 text-[#00d4aa]"}>
+                    {nowMs < ramp.rampEndTime ? `Ramping · ${rampProgress.toFixed(1)}%` : "Ramp complete"}
+                  </Badge>
+                ) : (
+                  <Badge className="bg-white/5 text-[#8b92a5]">No ramp</Badge>
+                )}
+              </CardContent>
+            </Card>
+            <Card className="glass-card border-white/5">
+              <CardContent className="p-4">
+                <div className="text-sm text-[#8b92a5] mb-1">Ramp Window</div>
+                {isRamping ? (
+                  <div className="text-xs font-mono text-white space-y-1">
+                    <div>{formatTime(ramp.rampStartTime)}</div>
+                    <div>→ {formatTime(ramp.rampEndTime)}</div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-[#8b92a5]">-</div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Chart */}
+          <Card className="glass-card border-white/5">
+            <CardHeader>
+              <CardTitle className="text-lg text-white flex items-center gap-2">
+                <Activity className="w-5 h-5 text-[#00d4aa]" />
+                Effective vs Scheduled A
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData}>
+                    <CartesianGrid stroke="rgba(255,255,255,0.05)" />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={["dataMin", "dataMax"]}
+                      tickFormatter={(ms: number) => new Date(ms).toLocaleDateString(undefined, { month: "short", day: "numeric", hour: "2-digit" })}
+                      stroke="#8b92a5"
+                      fontSize={11}
+                    />
+                    <YAxis stroke="#8b92a5" fontSize={11} domain={["auto", "auto"]} />
+                    <Tooltip
+                      contentStyle={{ background: "#0a0e1a", border: "1px solid rgba(255,255,255,0.1)" }}
+                      labelFormatter={(ms) => formatTime(Number(ms))}
+                    />
+                    <ReferenceLine x={nowMs} stroke="#f59e0b" strokeDasharray="3 3" label={{ value: "Now", fill: "#f59e0b", fontSize: 11 }} />
+                    <Line type="stepAfter" dataKey="effective" name="Effective A" stroke="#00d4aa" dot={false} isAnimationActive={false} />
+                    <Line type="linear" dataKey="ramped" name="Ramp schedule" stroke="#00a8ff" strokeDasharray="3 3" dot={false} connectNulls={false} isAnimationActive={false} />
+                    <Line type="stepAfter" dataKey="future" name="Future A" stroke="#8b92a5" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                    <Line type="linear" dataKey="scheduled" name="Scheduled A" stroke="#f59e0b" dot={false} connectNulls={false} isAnimationActive={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-[#8b92a5] mt-3 flex items-start gap-2">
+                <Info className="w-4 h-4 shrink-0" />
+                Effective A is what swaps and deposits use: the deployed get_current_amplification returns the
+                stored {formatNumber(ramp.amplification, 0)} and ignores the ramp. The ramp schedule line only shows
+                where an interpolating contract would be.
+              </p>
+            </CardContent>
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Schedule Ramp */}
+            <Card className="glass-card border-white/5">
+              <CardHeader>
+                <CardTitle className="text-lg text-white flex items-center gap-2">
+                  <TrendingUp className="w-5 h-5 text-[#00d4aa]" />
+                  Schedule Ramp
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <label className="text-sm text-[#8b92a5] mb-2 block">Target A</label>
+                  <Input
+                    type="number"
+                    placeholder={String(ramp.amplification)}
+                    value={targetA}
+                    onChange={(e) => setTargetA(e.target.value)}
+                    className="bg-[#0a0e1a] border-white/10 font-mono"
+                  />
+                  {targetError && <p className="text-xs text-[#ff4757] mt-1">{targetError}</p>}
+                </div>
+
+                <div>
+                  <label className="text-sm text-[#8b92a5] mb-2 block">Start</label>
+                  <div className="text-sm text-white font-mono">On execution</div>
+                  <p className="text-xs text-[#8b92a5] mt-1">
+                    ramp_amplification starts the ramp at the on-chain clock time
+                  </p>
+                </div>
+
+                <div>
+                  <label className="text-sm text-[#8b92a5] mb-2 block">End</label>
+                  <Input
+                    type="datetime-local"
+                    value={rampEnd}
+                    onChange={(e) => setRampEnd(e.target.value)}
+                    className="bg-[#0a0e1a] border-white/10 font-mono"
+                  />
+                  <div className="flex gap-2 mt-2">
+                    {DURATION_PRESETS.map((preset) => (
+                      <Button
+                        key={preset.label}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRampEnd(toLocalInput(Date.now() + preset.ms))}
+                        className="border-white/10 text-[#8b92a5] hover:text-white"
+                      >
+                        {preset.label}
+                      </Button>
+                    ))}
+                  </div>
+                  {endError && <p className="text-xs text-[#ff4757] mt-1">{endError}</p>}
+                </div>
+
+                {isRamping && nowMs < ramp.rampEndTime && (
+                  <p className="text-xs text-[#f59e0b]">
+                    A ramp is in progress. Scheduling a new one replaces it.
+                  </p>
+                )}
+
+                <Button
+                  onClick={() => execute("ramp")}
+                  disabled={!canRamp || isPending}
+                  className="w-full bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+                >
+                  {action === "ramp" ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <TrendingUp className="w-4 h-4 mr-2" />
+                  )}
+                  Schedule Ramp
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Stop Ramp */}
+            <Card className="glass-card border-white/5">
+              <CardHeader>
+                <CardTitle className="text-lg text-white flex items-center gap-2">
+                  <Square className="w-5 h-5 text-[#ff4757]" />
+                  Stop Ramp
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-[#8b92a5]">
+                  Ends the ramp immediately and fixes A at the value get_current_amplification returns,
+                  currently {formatNumber(ramp.amplification, 0)}.
+                </p>
+                {isRamping && (
+                  <div className="p-3 rounded-lg bg-[#f59e0b]/10 border border-[#f59e0b]/20">
+                    <div className="flex items-start gap-2">
+                      <AlertCircle className="w-4 h-4 text-[#f59e0b] mt-0.5 shrink-0" />
+                      <p className="text-xs text-[#f59e0b]">
+                        Stopping drops all ramp progress: A goes back to the stored {formatNumber(ramp.amplification, 0)},
+                        not the scheduled {formatNumber(rampedA, 0)}.
+                      </p>
+                    </div>
+                  </div>
+                )}
+                <Button
+                  variant="outline"
+                  onClick={() => execute("stop")}
+                  disabled={!isRamping || isPending}
+                  className="w-full border-[#ff4757]/30 text-[#ff4757] hover:bg-[#ff4757]/10"
+                >
+                  {action === "stop" ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Square className="w-4 h-4 mr-2" />
+                  )}
+                  Stop Ramp
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
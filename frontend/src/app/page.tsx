@@ -27,8 +27,34 @@ import {
   getTokenInfo,
   shortenAddress,
 } from "@/lib/mock-data";
+import { useAllPools, usePoolAnalytics, usePrices } from "@/lib/sui/queries";
+import { getPairUsdValue } from "@/lib/sui/pricing";
+import { calculatePoolApr } from "@/lib/sui/apr";
 
 export default function DashboardPage() {
+  const { data: realPools } = useAllPools();
+  const { data: analytics } = usePoolAnalytics();
+  const { data: prices } = usePrices();
+  const hasRealPools = !!realPools && realPools.length > 0;
+
+  // Live pools ranked by 24h volume, falling back to mock pools for demo
+  const topPools = hasRealPools
+    ? realPools
+        .map((pool) => {
+          const stats = analytics?.get(pool.id);
+          return {
+            id: pool.id,
+            tokenA: pool.tokenA,
+            tokenB: pool.tokenB,
+            feeTier: pool.feeTier,
+            tvlUsd: getPairUsdValue(prices, pool.tokenA, pool.reserveA, pool.tokenB, pool.reserveB),
+            volume24h: stats ? getPairUsdValue(prices, pool.tokenA, stats.day.volumeA, pool.tokenB, stats.day.volumeB) : 0,
+            apr: calculatePoolApr(pool, stats, prices).apr24h,
+          };
+        })
+        .sort((a, b) => b.volume24h - a.volume24h || b.tvlUsd - a.tvlUsd)
+    : MOCK_POOLS;
+
   return (
     <div className="space-y-8">
       {/* Hero Section */}
@@ -71,14 +97,18 @@ export default function DashboardPage() {
         <StatCard
           icon={<DollarSign className="w-5 h-5" />}
           label="Total Value Locked"
-          value={formatUsd(PROTOCOL_STATS.totalValueLocked)}
-          change={8.34}
+          value={formatUsd(hasRealPools
+            ? topPools.reduce((sum, p) => sum + p.tvlUsd, 0)
+            : PROTOCOL_STATS.totalValueLocked)}
+          change={hasRealPools ? undefined : 8.34}
         />
         <StatCard
           icon={<BarChart3 className="w-5 h-5" />}
           label="24h Volume"
-          value={formatUsd(PROTOCOL_STATS.totalVolume24h)}
-          change={12.56}
+          value={formatUsd(hasRealPools
+            ? topPools.reduce((sum, p) => sum + p.volume24h, 0)
+            : PROTOCOL_STATS.totalVolume24h)}
+          change={hasRealPools ? undefined : 12.56}
         />
         <StatCard
           icon={<Activity className="w-5 h-5" />}
@@ -113,7 +143,7 @@ export default function DashboardPage() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {MOCK_POOLS.slice(0, 4).map((pool) => {
+                {topPools.slice(0, 4).map((pool) => {
                   const tokenA = getTokenInfo(pool.tokenA);
                   const tokenB = getTokenInfo(pool.tokenB);
                   
@@ -283,9 +313,10 @@ function StatCard({
   icon: React.ReactNode; 
   label: string; 
   value: string; 
-  change: number;
+  /** Omitted for live values that have no previous period to compare against */
+  change?: number;
 }) {
-  const isPositive = change >= 0;
+  const isPositive = (change ?? 0) >= 0;
   
   return (
     <Card className="glass-card border-white/5">
@@ -294,16 +325,18 @@ function StatCard({
           <div className="w-10 h-10 rounded-lg bg-[#00d4aa]/10 flex items-center justify-center text-[#00d4aa]">
             {icon}
           </div>
-          <div className={`flex items-center gap-1 text-sm ${
-            isPositive ? 'text-[#00d4aa]' : 'text-[#ff4757]'
-          }`}>
-            {isPositive ? (
-              <TrendingUp className="w-3 h-3" />
-            ) : (
-              <TrendingDown className="w-3 h-3" />
-            )}
-            <span className="font-mono">{formatPercent(change)}</span>
-          </div>
+          {change !== undefined && (
+            <div className={`flex items-center gap-1 text-sm ${
+              isPositive ? 'text-[#00d4aa]' : 'text-[#ff4757]'
+            }`}>
+              {isPositive ? (
+                <TrendingUp className="w-3 h-3" />
+              ) : (
+                <TrendingDown className="w-3 h-3" />
+              )}
+              <span className="font-mono">{formatPercent(change)}</span>
+            </div>
+          )}
         </div>
         <div className="font-mono text-2xl font-bold text-white mb-1">
           {value}
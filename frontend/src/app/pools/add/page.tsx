@@ -32,15 +32,12 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
-import { Transaction } from "@mysten/sui/transactions";
 import { toast } from "sonner";
 import { 
   DEMO_TOKENS, 
   TokenSymbol, 
   FEE_TIERS,
-  PACKAGE_ID,
-  MODULES,
-  POOL_FACTORY_ID,
+  STABLE_AMPLIFICATION,
   getTxUrl 
 } from "@/lib/sui/constants";
 import { 
@@ -48,45 +45,98 @@ import {
   formatTokenAmount,
   parseTokenAmount,
 } from "@/lib/sui/transactions";
-import { useTokenBalances, useAllPools } from "@/lib/sui/queries";
+import { calculateStableLpTokens, getCurrentAmplification } from "@/lib/sui/stable-swap";
+import {
+  useTokenBalances,
+  useAllPools,
+  useAmmClient,
+  useLPPositions,
+  useRefreshPositions,
+} from "@/lib/sui/queries";
 import { MOCK_POOLS, formatUsd, formatNumber, getTokenInfo } from "@/lib/mock-data";
 
+/** Slippage tolerance (%) applied to the LP tokens a deposit mints */
+const SLIPPAGE_PERCENT = 0.5;
+
+/**
+ * stable_swap_pool::calculate_d cubes 1e18-scaled balances, which overflows u128 for any
+ * non-empty pool, so create_stable_pool always aborts. Enable once the contract is fixed.
+ */
+const STABLE_POOLS_ENABLED = false;
+
 function AddLiquidityContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const poolIdParam = searchParams.get("pool");
+  // Set when arriving from the Positions page to top up an existing NFT
+  const positionIdParam = searchParams.get("position");
   
   const account = useCurrentAccount();
   const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
   const { data: balances, refetch: refetchBalances } = useTokenBalances();
   const { data: realPools } = useAllPools();
+  const { data: positions } = useLPPositions();
+  const amm = useAmmClient();
+  const refreshPositions = useRefreshPositions();
 
-  const [tokenA, setTokenA] = useState<TokenSymbol>("USDC");
-  const [tokenB, setTokenB] = useState<TokenSymbol>("ETH");
+  const [selectedTokenA, setTokenA] = useState<TokenSymbol>("USDC");
+  const [selectedTokenB, setTokenB] = useState<TokenSymbol>("ETH");
   const [amountA, setAmountA] = useState("");
   const [amountB, setAmountB] = useState("");
   const [feeTier, setFeeTier] = useState(30);
-  const [slippage, setSlippage] = useState(0.5);
   const [isAdding, setIsAdding] = useState(false);
-  const [isNewPool, setIsNewPool] = useState(false);
+  const [poolType, setPoolType] = useState<"standard" | "stable">("standard");
+  const [amplification, setAmplification] = useState(String(STABLE_AMPLIFICATION.DEFAULT));
 
-  // Find existing pool - prefer real pools
-  const existingPool = useMemo(() => {
-    // First check real pools from blockchain
-    const realPool = realPools?.find(
+  // Increase mode: the position being topped up and its pool, which fix the pair
+  const increasePosition = positionIdParam
+    ? positions?.find((pos) => pos.id === positionIdParam)
+    : undefined;
+  const increasePool = increasePosition
+    ? realPools?.find((p) => p.id === increasePosition.poolId)
+    : undefined;
+  // stable_swap_pool has no add_liquidity_to_position, so stable positions can't be topped up
+  const isStableIncrease = !!increasePool?.stable;
+  const isIncrease = !!increasePosition && !!increasePool && !isStableIncrease;
+
+  const tokenA = increasePool?.tokenA ?? selectedTokenA;
+  const tokenB = increasePool?.tokenB ?? selectedTokenB;
+
+  // Find existing pool of the selected type - prefer real pools
+  const realPool = useMemo(() => {
+    if (increasePool) return increasePool;
+
+    return realPools?.find(
       (p) =>
-        (p.tokenA === tokenA && p.tokenB === tokenB) ||
-        (p.tokenA === tokenB && p.tokenB === tokenA)
+        ((p.tokenA === tokenA && p.tokenB === tokenB) ||
+          (p.tokenA === tokenB && p.tokenB === tokenA)) &&
+        !!p.stable === (poolType === "stable")
     );
+  }, [tokenA, tokenB, realPools, increasePool, poolType]);
+
+  const existingPool = useMemo(() => {
     if (realPool) return realPool;
-    
+    if (poolType === "stable") return undefined;
+
     // Fallback to mock pools
     return MOCK_POOLS.find(
       (p) =>
         (p.tokenA === tokenA && p.tokenB === tokenB) ||
         (p.tokenA === tokenB && p.tokenB === tokenA)
     );
-  }, [tokenA, tokenB, realPools]);
+  }, [tokenA, tokenB, realPool, poolType]);
+
+  // Stable pools: the live curve of an existing pool, or the amplification typed for a new one
+  const existingStable = realPool?.stable;
+  const isStable = isIncrease ? !!existingStable : poolType === "stable";
+  const parsedAmplification = Number(amplification);
+  const isValidAmplification =
+    Number.isInteger(parsedAmplification) &&
+    parsedAmplification >= STABLE_AMPLIFICATION.MIN &&
+    parsedAmplification <= STABLE_AMPLIFICATION.MAX;
+  const activeAmplification = existingStable
+    ? getCurrentAmplification(existingStable)
+    : isValidAmplification ? parsedAmplification : STABLE_AMPLIFICATION.DEFAULT;
   
   // Check if this is a real on-chain pool
   const isRealPool = realPools?.some(p => p.id === existingPool?.id) ?? false;
@@ -103,22 +153,33 @@ function AddLiquidityContent() {
     const parsedAmountB = parseTokenAmount(amountB, tokenBInfo.decimals);
 
     if (existingPool) {
-      const lp = calculateLpTokens(
-        parsedAmountA,
-        parsedAmountB,
-        existingPool.reserveA,
-        existingPool.reserveB,
-        existingPool.totalSupply
-      );
+      const lp = isStable
+        ? calculateStableLpTokens(
+            parsedAmountA,
+            parsedAmountB,
+            existingPool.reserveA,
+            existingPool.reserveB,
+            existingPool.totalSupply,
+            activeAmplification
+          )
+        : calculateLpTokens(
+            parsedAmountA,
+            parsedAmountB,
+            existingPool.reserveA,
+            existingPool.reserveB,
+            existingPool.totalSupply
+          );
       const newTotal = existingPool.totalSupply + lp;
       const share = (Number(lp) / Number(newTotal)) * 100;
       return { lpTokens: lp, sharePercent: share };
     } else {
       // New pool
-      const lp = calculateLpTokens(parsedAmountA, parsedAmountB, 0n, 0n, 0n);
+      const lp = isStable
+        ? calculateStableLpTokens(parsedAmountA, parsedAmountB, 0n, 0n, 0n, activeAmplification)
+        : calculateLpTokens(parsedAmountA, parsedAmountB, 0n, 0n, 0n);
       return { lpTokens: lp, sharePercent: 100 };
     }
-  }, [amountA, amountB, tokenA, tokenB, existingPool]);
+  }, [amountA, amountB, tokenA, tokenB, existingPool, isStable, activeAmplification]);
 
   // Get balance for display
   const getBalance = (symbol: TokenSymbol) => {
@@ -177,7 +238,7 @@ function AddLiquidityContent() {
 
     setIsAdding(true);
     
-    toast.info(existingPool ? "Adding Liquidity" : "Creating Pool", {
+    toast.info(isIncrease ? "Increasing Position" : existingPool ? "Adding Liquidity" : "Creating Pool", {
       description: "Please confirm the transaction in your wallet",
     });
 
@@ -188,77 +249,81 @@ function AddLiquidityContent() {
       const parsedAmountB = parseTokenAmount(amountB, tokenBInfo.decimals);
       
       // Check if we have coins and this is a real pool scenario
-      const hasCoinsA = balances?.[tokenA]?.objects.length;
-      const hasCoinsB = balances?.[tokenB]?.objects.length;
+      const hasCoinsA = balances?.[tokenA]?.coins.length;
+      const hasCoinsB = balances?.[tokenB]?.coins.length;
       
       if (hasCoinsA && hasCoinsB) {
-        const tx = new Transaction();
-        
-        // Merge and split coins for exact amounts
-        const coinAObjects = balances[tokenA].objects;
-        const coinBObjects = balances[tokenB].objects;
-        
-        // Merge coins A if needed
-        if (coinAObjects.length > 1) {
-          const [primaryA, ...otherA] = coinAObjects;
-          tx.mergeCoins(tx.object(primaryA), otherA.map(id => tx.object(id)));
-        }
-        const coinA = tx.splitCoins(tx.object(coinAObjects[0]), [tx.pure.u64(parsedAmountA)]);
+        let tx;
         
-        // Merge coins B if needed
-        if (coinBObjects.length > 1) {
-          const [primaryB, ...otherB] = coinBObjects;
-          tx.mergeCoins(tx.object(primaryB), otherB.map(id => tx.object(id)));
-        }
-        const coinB = tx.splitCoins(tx.object(coinBObjects[0]), [tx.pure.u64(parsedAmountB)]);
-        
-        if (existingPool && isRealPool) {
+        if (isIncrease) {
+          // Top up the existing position NFT
+          const minLpTokens = lpTokens - (lpTokens * BigInt(Math.floor(SLIPPAGE_PERCENT * 100))) / 10000n;
+
+          tx = amm.buildIncreaseLiquidity({
+            pool: increasePool,
+            positionId: increasePosition.id,
+            coinsA: balances[increasePool.tokenA].coins,
+            coinsB: balances[increasePool.tokenB].coins,
+            amountA: parsedAmountA,
+            amountB: parsedAmountB,
+            minLpTokens,
+          });
+        } else if (existingPool && isRealPool) {
           // Add to existing pool
-          const minLpTokens = lpTokens - (lpTokens * BigInt(Math.floor(slippage * 100))) / 10000n;
+          const minLpTokens = lpTokens - (lpTokens * BigInt(Math.floor(SLIPPAGE_PERCENT * 100))) / 10000n;
           
-          const position = tx.moveCall({
-            target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::add_liquidity`,
-            typeArguments: [tokenAInfo.type, tokenBInfo.type],
-            arguments: [
-              tx.object(existingPool.id),
-              coinA,
-              coinB,
-              tx.pure.u64(minLpTokens),
-              tx.object("0x6"), // Clock
-            ],
-          });
+          const isAFirst = existingPool.tokenA === tokenA;
           
-          // Transfer the LP Position NFT to user
-          tx.transferObjects([position], tx.pure.address(account.address));
+          tx = amm.buildAddLiquidity({
+            pool: existingPool,
+            coinsA: balances[existingPool.tokenA].coins,
+            coinsB: balances[existingPool.tokenB].coins,
+            amountA: isAFirst ? parsedAmountA : parsedAmountB,
+            amountB: isAFirst ? parsedAmountB : parsedAmountA,
+            minLpTokens,
+            recipient: account.address,
+          });
+        } else if (isStable) {
+          // Create new stable pool
+          tx = amm.buildCreateStablePool({
+            tokenA,
+            tokenB,
+            coinsA: balances[tokenA].coins,
+            coinsB: balances[tokenB].coins,
+            amountA: parsedAmountA,
+            amountB: parsedAmountB,
+            amplification: parsedAmplification,
+            feeTier,
+            recipient: account.address,
+          });
         } else {
           // Create new pool
-          const position = tx.moveCall({
-            target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::create_pool`,
-            typeArguments: [tokenAInfo.type, tokenBInfo.type],
-            arguments: [
-              tx.object(POOL_FACTORY_ID),
-              coinA,
-              coinB,
-              tx.pure.u64(feeTier),
-              tx.object("0x6"), // Clock
-            ],
+          tx = amm.buildCreatePool({
+            tokenA,
+            tokenB,
+            coinsA: balances[tokenA].coins,
+            coinsB: balances[tokenB].coins,
+            amountA: parsedAmountA,
+            amountB: parsedAmountB,
+            feeTier,
+            recipient: account.address,
           });
-          
-          // Transfer the LP Position NFT to user
-          tx.transferObjects([position], tx.pure.address(account.address));
         }
         
         signAndExecute(
           { transaction: tx },
           {
             onSuccess: (result) => {
-              toast.success(existingPool ? "Liquidity Added!" : "Pool Created!", {
-                description: `You received an LP Position NFT for ${tokenA}/${tokenB}`,
+              toast.success(isIncrease ? "Position Increased!" : existingPool ? "Liquidity Added!" : "Pool Created!", {
+                description: isIncrease
+                  ? `Added liquidity to your ${tokenA}/${tokenB} position`
+                  : `You received an LP Position NFT for ${tokenA}/${tokenB}`,
                 action: {
                   label: "View",
                   onClick: () => window.open(getTxUrl(result.digest), "_blank"),
                 },
               });
+              refreshPositions();
               router.push("/positions");
               setIsAdding(false);
             },
@@ -298,23 +363,28 @@ function AddLiquidityContent() {
     amountA && 
     amountB && 
     parseFloat(amountA) > 0 && 
-    parseFloat(amountB) > 0;
+    parseFloat(amountB) > 0 &&
+    !isStableIncrease &&
+    (!isStable || STABLE_POOLS_ENABLED) &&
+    (!isStable || existingPool || isValidAmplification);
 
   return (
     <div className="max-w-xl mx-auto">
       {/* Header */}
       <div className="flex items-center gap-4 mb-6">
-        <Link href="/pools">
+        <Link href={isIncrease ? "/positions" : "/pools"}>
           <Button variant="ghost" size="icon" className="text-[#8b92a5] hover:text-white">
             <ArrowLeft className="w-5 h-5" />
           </Button>
         </Link>
         <div>
           <h1 className="text-2xl font-bold text-white">
-            {existingPool ? "Add Liquidity" : "Create Pool"}
+            {isIncrease ? "Increase Position" : existingPool ? "Add Liquidity" : "Create Pool"}
           </h1>
           <p className="text-[#8b92a5] text-sm">
-            {existingPool 
+            {isIncrease
+              ? "Add tokens to your existing LP Position NFT"
+              : existingPool 
               ? "Add tokens to an existing pool" 
               : "Create a new liquidity pool"
             }
@@ -322,6 +392,20 @@ function AddLiquidityContent() {
         </div>
       </div>
 
+      {isStableIncrease && (
+        <Card className="glass-card border-[#f59e0b]/20 mb-4">
+          <CardContent className="p-4">
+            <div className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 text-[#f59e0b] mt-0.5" />
+              <p className="text-sm text-[#f59e0b]">
+                Stable pool positions can&apos;t be increased: stable_swap_pool has no
+                add_liquidity_to_position, so the top-up would abort on-chain.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Token Selection & Amounts */}
       <Card className="glass-card border-white/5 mb-4">
         <CardContent className="p-4 space-y-4">
@@ -349,7 +433,7 @@ function AddLiquidityContent() {
                 onChange={(e) => handleAmountAChange(e.target.value)}
                 className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
               />
-              <Select value={tokenA} onValueChange={(v) => {
+              <Select value={tokenA} disabled={isIncrease} onValueChange={(v) => {
                 if (v === tokenB) setTokenB(tokenA);
                 setTokenA(v as TokenSymbol);
                 setAmountA("");
@@ -413,7 +497,7 @@ function AddLiquidityContent() {
                 onChange={(e) => handleAmountBChange(e.target.value)}
                 className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
               />
-              <Select value={tokenB} onValueChange={(v) => {
+              <Select value={tokenB} disabled={isIncrease} onValueChange={(v) => {
                 if (v === tokenA) setTokenA(tokenB);
                 setTokenB(v as TokenSymbol);
                 setAmountA("");
@@ -448,6 +532,75 @@ function AddLiquidityContent() {
         </CardContent>
       </Card>
 
+      {/* Pool Type */}
+      {!isIncrease && (
+        <Card className="glass-card border-white/5 mb-4">
+          <CardContent className="p-4">
+            <div className="flex items-center justify-between mb-3">
+              <span className="text-sm text-white font-medium">Pool Type</span>
+              <span className="text-xs text-[#8b92a5]">
+                Stable pools suit assets that trade near 1:1
+              </span>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[
+                { value: "standard" as const, label: "Standard", desc: "Constant product (x·y=k)" },
+                { value: "stable" as const, label: "Stable", desc: "StableSwap curve" },
+              ].map((type) => (
+                <button
+                  key={type.value}
+                  disabled={type.value === "stable" && !STABLE_POOLS_ENABLED}
+                  onClick={() => {
+                    setPoolType(type.value);
+                    // Stable pools accept fee tiers up to 0.3%
+                    if (type.value === "stable" && feeTier > FEE_TIERS.MEDIUM) setFeeTier(FEE_TIERS.LOW);
+                  }}
+                  className={`p-3 rounded-xl border transition-all ${
+                    poolType === type.value
+                      ? "bg-[#00d4aa]/10 border-[#00d4aa]/30 text-white"
+                      : "bg-[#0a0e1a] border-white/5 text-[#8b92a5] hover:border-white/10"
+                  } disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  <div className="text-lg font-bold">{type.label}</div>
+                  <div className="text-xs">{type.desc}</div>
+                </button>
+              ))}
+            </div>
+
+            {!STABLE_POOLS_ENABLED && (
+              <div className="mt-3 flex items-start gap-2">
+                <AlertTriangle className="w-4 h-4 text-[#f59e0b] mt-0.5" />
+                <p className="text-xs text-[#f59e0b]">
+                  Stable pools are unavailable: the contract&apos;s StableSwap invariant overflows for
+                  any non-empty pool, so creating or adding to one aborts on-chain.
+                </p>
+              </div>
+            )}
+
+            {isStable && !existingPool && (
+              <div className="mt-4">
+                <label className="text-sm text-[#8b92a5] mb-2 block">
+                  Amplification (A)
+                </label>
+                <Input
+                  type="text"
+                  inputMode="numeric"
+                  value={amplification}
+                  onChange={(e) => setAmplification(e.target.value)}
+                  className="bg-[#0a0e1a] border-white/10 font-mono text-white"
+                />
+                <p className={`text-xs mt-2 ${isValidAmplification ? "text-[#8b92a5]" : "text-[#ff4757]"}`}>
+                  {isValidAmplification
+                    ? "Higher A keeps prices closer to 1:1 for longer. 100 is typical for stablecoins."
+                    : `Enter a whole number from ${STABLE_AMPLIFICATION.MIN} to ${formatNumber(STABLE_AMPLIFICATION.MAX, 0)}`
+                  }
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Fee Tier (for new pools) */}
       {!existingPool && (
         <Card className="glass-card border-white/5 mb-4">
@@ -463,7 +616,7 @@ function AddLiquidityContent() {
                 { value: 5, label: "0.05%", desc: "Best for stable pairs" },
                 { value: 30, label: "0.3%", desc: "Standard pairs" },
                 { value: 100, label: "1%", desc: "Exotic pairs" },
-              ].map((tier) => (
+              ].filter((tier) => !isStable || tier.value <= FEE_TIERS.MEDIUM).map((tier) => (
                 <button
                   key={tier.value}
                   onClick={() => setFeeTier(tier.value)}
@@ -495,6 +648,12 @@ function AddLiquidityContent() {
                 {tokenA}/{tokenB}
               </span>
             </div>
+            {isStable && (
+              <div className="flex items-center justify-between">
+                <span className="text-[#8b92a5]">Amplification</span>
+                <span className="text-white font-mono">{formatNumber(activeAmplification, 0)}</span>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <span className="text-[#8b92a5]">Fee Tier</span>
               <span className="text-white font-mono">
@@ -529,8 +688,10 @@ function AddLiquidityContent() {
               <div className="flex items-start gap-2">
                 <Info className="w-4 h-4 text-[#00d4aa] mt-0.5" />
                 <p className="text-sm text-[#00d4aa]">
-                  You will receive an NFT representing your liquidity position. 
-                  This NFT can be transferred and tracks your earned fees.
+                  {isIncrease
+                    ? "The liquidity is added to your existing position NFT. Pending fees are settled into it first."
+                    : "You will receive an NFT representing your liquidity position. This NFT can be transferred and tracks your earned fees."
+                  }
                 </p>
               </div>
             </div>
@@ -547,6 +708,13 @@ function AddLiquidityContent() {
           >
             Connect Wallet
           </Button>
+        ) : isStableIncrease ? (
+          <Button 
+            className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
+            disabled
+          >
+            Stable Positions Can&apos;t Be Increased
+          </Button>
         ) : !amountA || !amountB || parseFloat(amountA) === 0 || parseFloat(amountB) === 0 ? (
           <Button 
             className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
@@ -557,18 +725,18 @@ function AddLiquidityContent() {
         ) : (
           <Button 
             onClick={handleAddLiquidity}
-            disabled={isAdding || isPending}
+            disabled={!isValidAdd || isAdding || isPending}
             className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] hover:opacity-90 transition-opacity"
           >
             {isAdding || isPending ? (
               <>
                 <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                {existingPool ? "Adding Liquidity..." : "Creating Pool..."}
+                {isIncrease ? "Increasing Position..." : existingPool ? "Adding Liquidity..." : "Creating Pool..."}
               </>
             ) : (
               <>
                 <Plus className="w-5 h-5 mr-2" />
-                {existingPool ? "Add Liquidity" : "Create Pool & Add Liquidity"}
+                {isIncrease ? "Increase Position" : existingPool ? "Add Liquidity" : "Create Pool & Add Liquidity"}
               </>
             )}
           </Button>
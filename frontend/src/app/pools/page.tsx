@@ -35,7 +35,9 @@ import {
   getTokenInfo 
 } from "@/lib/mock-data";
 import { formatTokenAmount } from "@/lib/sui/transactions";
-import { useAllPools, usePoolFactory } from "@/lib/sui/queries";
+import { useAllPools, usePoolFactory, usePoolAnalytics, usePrices } from "@/lib/sui/queries";
+import { getPairUsdValue } from "@/lib/sui/pricing";
+import { calculatePoolApr } from "@/lib/sui/apr";
 
 type SortOption = "tvl" | "volume" | "apr" | "fees";
 
@@ -47,26 +49,41 @@ export default function PoolsPage() {
   // Fetch real pools from blockchain
   const { data: realPools, isLoading: poolsLoading } = useAllPools();
   const { data: poolFactory } = usePoolFactory();
+  const { data: analytics } = usePoolAnalytics();
+  const { data: prices } = usePrices();
 
   // Combine real pools with mock pools for display
   // Real pools take priority, mock pools fill in the gaps
   const displayPools = realPools && realPools.length > 0 
-    ? realPools.map(pool => ({
-        id: pool.id,
-        tokenA: pool.tokenA,
-        tokenB: pool.tokenB,
-        feeTier: pool.feeTier / 100, // Convert basis points to percentage
-        reserveA: pool.reserveA,
-        reserveB: pool.reserveB,
-        // Estimate TVL based on reserves (simplified)
-        tvlUsd: Number(pool.reserveA) / Math.pow(10, DEMO_TOKENS[pool.tokenA].decimals) * 1 +
-                Number(pool.reserveB) / Math.pow(10, DEMO_TOKENS[pool.tokenB].decimals) * 1,
-        volume24h: 0, // Would need historical data
-        apr: pool.feeTier / 100 * 365, // Rough APR estimate
-        fees24h: 0,
-        isReal: true,
-      }))
-    : MOCK_POOLS.map(p => ({ ...p, isReal: false }));
+    ? realPools.map(pool => {
+        const stats = analytics?.get(pool.id);
+        const { apr24h, apr7d } = calculatePoolApr(pool, stats, prices);
+        return {
+          id: pool.id,
+          tokenA: pool.tokenA,
+          tokenB: pool.tokenB,
+          feeTier: pool.feeTier / 100, // Convert basis points to percentage
+          reserveA: pool.reserveA,
+          reserveB: pool.reserveB,
+          // TVL from reserves at prices derived from the pool graph
+          tvlUsd: getPairUsdValue(prices, pool.tokenA, pool.reserveA, pool.tokenB, pool.reserveB),
+          // Rolling totals from SwapExecuted events
+          volume24h: stats ? getPairUsdValue(prices, pool.tokenA, stats.day.volumeA, pool.tokenB, stats.day.volumeB) : 0,
+          volume7d: stats ? getPairUsdValue(prices, pool.tokenA, stats.week.volumeA, pool.tokenB, stats.week.volumeB) : 0,
+          // Annualized LP fees per LP token
+          apr: apr24h,
+          apr7d,
+          fees24h: stats ? getPairUsdValue(prices, pool.tokenA, stats.day.feesA, pool.tokenB, stats.day.feesB) : 0,
+          isReal: true,
+        };
+      })
+    : MOCK_POOLS.map(p => ({ ...p, apr7d: p.apr, isReal: false }));
+
+  // TVL-weighted average of 24h APR
+  const totalTvl = displayPools.reduce((sum, p) => sum + p.tvlUsd, 0);
+  const averageApr = totalTvl > 0
+    ? displayPools.reduce((sum, p) => sum + p.apr * p.tvlUsd, 0) / totalTvl
+    : 0;
 
   // Filter and sort pools
   const filteredPools = displayPools
@@ -130,8 +147,13 @@ export default function PoolsPage() {
           <CardContent className="p-4">
             <div className="text-sm text-[#8b92a5] mb-1">24h Volume</div>
             <div className="text-xl font-bold font-mono text-white">
-              {formatUsd(PROTOCOL_STATS.totalVolume24h)}
+              {realPools && realPools.length > 0
+                ? formatUsd(displayPools.reduce((sum, p) => sum + p.volume24h, 0))
+                : formatUsd(PROTOCOL_STATS.totalVolume24h)}
             </div>
+            {realPools && realPools.length > 0 && analytics && (
+              <div className="text-xs text-[#00d4aa] mt-1">From on-chain swaps</div>
+            )}
           </CardContent>
         </Card>
         <Card className="glass-card border-white/5">
@@ -149,8 +171,13 @@ export default function PoolsPage() {
           <CardContent className="p-4">
             <div className="text-sm text-[#8b92a5] mb-1">Avg. APR</div>
             <div className="text-xl font-bold font-mono text-[#00d4aa]">
-              {PROTOCOL_STATS.averageAPR.toFixed(2)}%
+              {realPools && realPools.length > 0
+                ? `${averageApr.toFixed(2)}%`
+                : `${PROTOCOL_STATS.averageAPR.toFixed(2)}%`}
             </div>
+            {realPools && realPools.length > 0 && (
+              <div className="text-xs text-[#8b92a5] mt-1">24h fees, TVL-weighted</div>
+            )}
           </CardContent>
         </Card>
       </div>
@@ -255,6 +282,9 @@ export default function PoolsPage() {
                         {pool.apr >= 15 && <Zap className="w-3 h-3" />}
                         {pool.apr.toFixed(2)}%
                       </div>
+                      <div className="text-xs font-mono text-[#8b92a5]">
+                        7d {pool.apr7d.toFixed(2)}%
+                      </div>
                     </div>
                     <div className="col-span-1 flex justify-end">
                       <Link href={`/pools/add?pool=${pool.id}`}>
@@ -290,6 +320,7 @@ export default function PoolsPage() {
                         pool.apr >= 15 ? 'text-[#00d4aa]' : 'text-white'
                       }`}>
                         {pool.apr.toFixed(2)}% APR
+                        <div className="text-xs text-[#8b92a5] text-right">7d {pool.apr7d.toFixed(2)}%</div>
                       </div>
                     </div>
                     <div className="grid grid-cols-3 gap-2 text-sm">
@@ -11,11 +11,11 @@ import {
   TrendingDown,
   Clock,
   Coins,
-  Info,
   AlertCircle,
   Loader2,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  Send
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -32,12 +32,37 @@ import {
 } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
 import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
+import { isValidSuiAddress, normalizeSuiAddress } from "@mysten/sui/utils";
 import { toast } from "sonner";
 import { DEMO_TOKENS, TokenSymbol, getObjectUrl, getTxUrl } from "@/lib/sui/constants";
-import { formatTokenAmount, calculateRemoveLiquidityAmounts } from "@/lib/sui/transactions";
-import { useLPPositions } from "@/lib/sui/queries";
+import {
+  formatTokenAmount,
+  calculateMinOutput,
+  calculateRemoveLiquidityAmounts,
+  type FeeClaim,
+} from "@/lib/sui/transactions";
+import type { FeePositionRef } from "@/lib/sui/client";
+import {
+  useAmmClient,
+  useClaimableFees,
+  useFeeDistributor,
+  useLPPositions,
+  usePools,
+  usePositionHistory,
+  usePrices,
+  useRefreshPositions,
+} from "@/lib/sui/queries";
+import { formatLpTokens, isClaimable, previewCompound, valuePosition } from "@/lib/sui/positions";
 import { MOCK_POOLS, formatUsd, formatNumber, getTokenInfo, getRelativeTime } from "@/lib/mock-data";
 
+const SLIPPAGE_OPTIONS = [0.1, 0.5, 1.0, 3.0];
+
+/**
+ * fee_distributor::claim_fees_from_pool currently returns zero-value coins and still resets
+ * the position's fee credit, so a claim forfeits the fees. Enable once the contract pays out.
+ */
+const FEE_CLAIMS_ENABLED = false;
+
 // Mock positions for demo (since real positions would require actual transactions)
 const MOCK_POSITIONS = [
   {
@@ -54,6 +79,7 @@ const MOCK_POSITIONS = [
     feesEarnedB: 38_000000000000000n,
     createdAt: Date.now() - 14 * 24 * 60 * 60 * 1000, // 14 days ago
     valueUsd: 52500,
+    pnlUsd: 2500,
     pnlPercent: 5.0,
     ilPercent: -0.8,
   },
@@ -71,75 +97,312 @@ const MOCK_POSITIONS = [
     feesEarnedB: 15_550000n,
     createdAt: Date.now() - 30 * 24 * 60 * 60 * 1000, // 30 days ago
     valueUsd: 99950,
+    pnlUsd: 30,
     pnlPercent: 0.03,
     ilPercent: 0,
   },
 ];
 
+type DisplayPosition = typeof MOCK_POSITIONS[number] & { isReal: boolean };
+
 export default function PositionsPage() {
   const account = useCurrentAccount();
   const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const amm = useAmmClient();
+  const refreshPositions = useRefreshPositions();
   
   // Fetch real LP positions from blockchain
   const { data: realLPPositions, isLoading: positionsLoading } = useLPPositions();
+  const { data: prices } = usePrices();
+  const { data: feeDistributor } = useFeeDistributor();
   
-  const [selectedPosition, setSelectedPosition] = useState<typeof MOCK_POSITIONS[0] | null>(null);
+  const [selectedPosition, setSelectedPosition] = useState<DisplayPosition | null>(null);
   const [removeAmount, setRemoveAmount] = useState("");
+  const [removeSlippage, setRemoveSlippage] = useState(0.5);
+  // Position being claimed, or "all" for the batch claim
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const [compoundingId, setCompoundingId] = useState<string | null>(null);
+  const [transferAddress, setTransferAddress] = useState("");
+  const [isTransferring, setIsTransferring] = useState(false);
   const [isRemoving, setIsRemoving] = useState(false);
   const [expandedPosition, setExpandedPosition] = useState<string | null>(null);
 
+  // History is read per position, only for the on-chain position that is expanded
+  const { data: positionHistory } = usePositionHistory(
+    realLPPositions?.some((pos) => pos.id === expandedPosition) ? expandedPosition ?? undefined : undefined
+  );
+
+  // Resolve each position's pool so it can be valued against live reserves
+  const positionPoolIds = useMemo(
+    () => Array.from(new Set((realLPPositions ?? []).map((pos) => pos.poolId))),
+    [realLPPositions]
+  );
+  const { data: positionPools, isLoading: poolsLoading } = usePools(positionPoolIds);
+
   // Convert real positions to display format, or use mock positions as fallback
   const positions = useMemo(() => {
     if (realLPPositions && realLPPositions.length > 0) {
-      // Filter out null values and map to display format
-      return realLPPositions
-        .filter((pos): pos is NonNullable<typeof pos> => pos !== null && pos !== undefined)
-        .map((pos) => ({
-          id: pos.id || "",
+      const poolsById = new Map(positionPools.map((pool) => [pool.id, pool]));
+
+      return realLPPositions.flatMap((pos) => {
+        const pool = poolsById.get(pos.poolId);
+        const valuation = pool ? valuePosition(pos, pool, prices) : null;
+        if (!valuation) return [];
+
+        return [{
+          id: pos.id,
           poolId: pos.poolId,
-          tokenA: "USDC" as TokenSymbol, // Would need pool lookup to get actual tokens
-          tokenB: "USDT" as TokenSymbol,
+          tokenA: valuation.tokenA,
+          tokenB: valuation.tokenB,
           lpTokens: pos.lpTokens,
           initialAmountA: pos.initialAmountA,
           initialAmountB: pos.initialAmountB,
-          currentAmountA: pos.initialAmountA, // Simplified - would need pool reserves
-          currentAmountB: pos.initialAmountB,
-          feesEarnedA: pos.feesEarnedA,
-          feesEarnedB: pos.feesEarnedB,
+          currentAmountA: valuation.currentAmountA,
+          currentAmountB: valuation.currentAmountB,
+          feesEarnedA: valuation.pendingFeesA,
+          feesEarnedB: valuation.pendingFeesB,
           createdAt: pos.createdAt,
-          valueUsd: Number(pos.initialAmountA) / 1e6 + Number(pos.initialAmountB) / 1e6, // Simplified
-          pnlPercent: 0,
-          ilPercent: 0,
+          valueUsd: valuation.valueUsd,
+          pnlUsd: valuation.pnlUsd,
+          pnlPercent: valuation.pnlPercent,
+          ilPercent: valuation.ilPercent,
           isReal: true,
-        }));
+        }];
+      });
     }
     return MOCK_POSITIONS.map(p => ({ ...p, isReal: false }));
-  }, [realLPPositions]);
+  }, [realLPPositions, positionPools, prices]);
+
+  // Cross-check the expanded position's pending fees against the on-chain calculation
+  const expandedPool = useMemo(() => {
+    const pos = realLPPositions?.find((p) => p.id === expandedPosition);
+    return pos ? positionPools.find((pool) => pool.id === pos.poolId) : undefined;
+  }, [realLPPositions, positionPools, expandedPosition]);
+  const { data: onChainFees } = useClaimableFees(
+    expandedPool ? expandedPosition ?? undefined : undefined,
+    expandedPool
+  );
 
   // Calculate total portfolio value
   const totalValue = positions.reduce((sum, pos) => sum + pos.valueUsd, 0);
-  const totalPnl = positions.reduce((sum, pos) => sum + (pos.valueUsd * pos.pnlPercent / 100), 0);
+  const totalPnl = positions.reduce((sum, pos) => sum + pos.pnlUsd, 0);
   const hasRealPositions = realLPPositions && realLPPositions.length > 0;
 
+  // LP tokens auto_compound would mint for each position.
+  // The fee distributor only works with constant-product pools.
+  const compoundPreviews = new Map<string, bigint>();
+  for (const pos of positions) {
+    const pool = pos.isReal ? positionPools.find((p) => p.id === pos.poolId) : undefined;
+    if (pool && !pool.stable) {
+      compoundPreviews.set(pos.id, previewCompound({ feesA: pos.feesEarnedA, feesB: pos.feesEarnedB }, pool));
+    }
+  }
+
+  // Positions whose pending fees clear the distributor's minimum claim
+  const minClaimAmount = feeDistributor?.minClaimAmount ?? 1n;
+  const claimablePositions = positions.filter(
+    (pos) => compoundPreviews.has(pos.id) && isClaimable({ feesA: pos.feesEarnedA, feesB: pos.feesEarnedB }, minClaimAmount)
+  );
+
+  // Handle fee claims for one position or all claimable positions in one PTB
+  const handleClaimFees = (targets: DisplayPosition[], claimKey: string) => {
+    if (!account || !FEE_CLAIMS_ENABLED) return;
+
+    const claims: FeeClaim[] = [];
+    for (const pos of targets) {
+      const pool = positionPools.find((p) => p.id === pos.poolId);
+      if (!pool) continue;
+      claims.push({ coinAType: pool.coinAType, coinBType: pool.coinBType, poolId: pool.id, positionId: pos.id });
+    }
+    if (claims.length === 0) return;
+
+    setClaimingId(claimKey);
+
+    signAndExecute(
+      { transaction: amm.buildClaimFees({ claims, recipient: account.address }) },
+      {
+        onSuccess: (result) => {
+          toast.success("Fees Claimed!", {
+            description: claims.length === 1
+              ? `Claimed fees from your ${targets[0].tokenA}/${targets[0].tokenB} position`
+              : `Claimed fees from ${claims.length} positions`,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refreshPositions();
+          setClaimingId(null);
+        },
+        onError: (error) => {
+          toast.error("Transaction Failed", {
+            description: error.message || "Unknown error occurred",
+          });
+          setClaimingId(null);
+        },
+      }
+    );
+  };
+
+  // Handle compounding pending fees back into LP tokens
+  const handleCompound = (targets: DisplayPosition[], compoundKey: string) => {
+    if (!account) return;
+
+    const refs: FeePositionRef[] = [];
+    let expectedLp = 0n;
+    for (const pos of targets) {
+      const pool = positionPools.find((p) => p.id === pos.poolId);
+      if (!pool) continue;
+      refs.push({ coinAType: pool.coinAType, coinBType: pool.coinBType, poolId: pool.id, positionId: pos.id });
+      expectedLp += compoundPreviews.get(pos.id) ?? 0n;
+    }
+    if (refs.length === 0) return;
+
+    setCompoundingId(compoundKey);
+
+    const tx = amm.buildAutoCompound({ positions: refs });
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success("Fees Compounded!", {
+            description: refs.length === 1
+              ? `Added ~${formatLpTokens(expectedLp)} LP tokens to your ${targets[0].tokenA}/${targets[0].tokenB} position`
+              : `Added ~${formatLpTokens(expectedLp)} LP tokens across ${refs.length} positions`,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refreshPositions();
+          setCompoundingId(null);
+        },
+        onError: (error) => {
+          toast.error("Transaction Failed", {
+            description: error.message || "Unknown error occurred",
+          });
+          setCompoundingId(null);
+        },
+      }
+    );
+  };
+
+  // Validate the transfer recipient as the user types
+  const transferRecipient = transferAddress.trim();
+  const transferError = !transferRecipient
+    ? null
+    : !isValidSuiAddress(transferRecipient)
+    ? "Enter a full Sui address (0x followed by 64 hex characters)"
+    : account && normalizeSuiAddress(transferRecipient) === normalizeSuiAddress(account.address)
+    ? "You already own this position"
+    : null;
+
+  // Handle sending a position NFT to another address
+  const handleTransfer = () => {
+    if (!account || !selectedPosition || !transferRecipient || transferError) return;
+
+    setIsTransferring(true);
+
+    const recipient = normalizeSuiAddress(transferRecipient);
+    const tx = amm.buildTransferPosition({ positionId: selectedPosition.id, from: account.address, to: recipient });
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success("Position Transferred!", {
+            description: `Sent your ${selectedPosition.tokenA}/${selectedPosition.tokenB} position to ${recipient.slice(0, 8)}...${recipient.slice(-6)}`,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refreshPositions();
+          setSelectedPosition(null);
+          setTransferAddress("");
+          setIsTransferring(false);
+        },
+        onError: (error) => {
+          toast.error("Transaction Failed", {
+            description: error.message || "Unknown error occurred",
+          });
+          setIsTransferring(false);
+        },
+      }
+    );
+  };
+
   // Handle remove liquidity
   const handleRemoveLiquidity = async () => {
-    if (!selectedPosition || !removeAmount) return;
+    if (!selectedPosition || !removeAmount || !account) return;
 
     setIsRemoving(true);
-    
-    toast.info("Removing Liquidity", {
-      description: "Please confirm the transaction in your wallet",
-    });
 
     try {
+      const pool = positionPools.find((p) => p.id === selectedPosition.poolId);
+
+      if (selectedPosition.isReal && pool) {
+        const percent = BigInt(removeAmount);
+        // Stable pools have no remove_all_liquidity, so they withdraw every LP token instead
+        const removeAll = percent === 100n && !pool.stable;
+        const lpTokens = percent === 100n ? selectedPosition.lpTokens : (selectedPosition.lpTokens * percent) / 100n;
+        if (lpTokens === 0n) {
+          throw new Error("Position too small to remove this percentage");
+        }
+
+        // Quote against the latest reserves and allow them to move by the slippage tolerance
+        const expected = calculateRemoveLiquidityAmounts(lpTokens, pool.reserveA, pool.reserveB, pool.totalSupply);
+        const slippageBps = Math.floor(removeSlippage * 100);
+        const params = {
+          pool,
+          positionId: selectedPosition.id,
+          minAmountA: calculateMinOutput(expected.amountA, slippageBps),
+          minAmountB: calculateMinOutput(expected.amountB, slippageBps),
+          recipient: account.address,
+        };
+        const tx = removeAll
+          ? amm.buildRemoveAllLiquidity(params)
+          : amm.buildRemoveLiquidity({ ...params, lpTokens });
+
+        toast.info("Removing Liquidity", {
+          description: "Please confirm the transaction in your wallet",
+        });
+
+        signAndExecute(
+          { transaction: tx },
+          {
+            onSuccess: (result) => {
+              toast.success("Liquidity Removed!", {
+                description: removeAll
+                  ? `Closed your ${selectedPosition.tokenA}/${selectedPosition.tokenB} position`
+                  : `Successfully removed ${removeAmount}% of your position`,
+                action: {
+                  label: "View",
+                  onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+                },
+              });
+              refreshPositions();
+              setSelectedPosition(null);
+              setRemoveAmount("");
+              setIsRemoving(false);
+            },
+            onError: (error) => {
+              toast.error("Transaction Failed", {
+                description: error.message || "Unknown error occurred",
+              });
+              setIsRemoving(false);
+            },
+          }
+        );
+        return;
+      }
+
+      // Fallback: Simulate for demo positions
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
-      toast.success("Liquidity Removed!", {
-        description: `Successfully removed ${removeAmount}% of your position`,
-        action: {
-          label: "View",
-          onClick: () => window.open(getTxUrl("demo-tx-hash"), "_blank"),
-        },
+      toast.success("Simulated!", {
+        description: `Demo: Would remove ${removeAmount}% of your position`,
       });
 
       setSelectedPosition(null);
@@ -148,9 +411,8 @@ export default function PositionsPage() {
       toast.error("Transaction Failed", {
         description: error instanceof Error ? error.message : "Unknown error occurred",
       });
-    } finally {
-      setIsRemoving(false);
     }
+    setIsRemoving(false);
   };
 
   if (!account) {
@@ -179,12 +441,30 @@ export default function PositionsPage() {
             Manage your liquidity positions and earned fees
           </p>
         </div>
-        <Link href="/pools/add">
-          <Button className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold">
-            <Plus className="w-4 h-4 mr-2" />
-            New Position
-          </Button>
-        </Link>
+        <div className="flex gap-2">
+          {hasRealPositions && (
+            <Button
+              variant="outline"
+              className="border-white/10 text-white hover:bg-white/5"
+              disabled={!FEE_CLAIMS_ENABLED || claimablePositions.length === 0 || claimingId !== null || isPending}
+              onClick={() => handleClaimFees(claimablePositions, "all")}
+              title={FEE_CLAIMS_ENABLED ? undefined : "Claiming is disabled: the fee distributor pays out zero coins"}
+            >
+              {claimingId === "all" ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Coins className="w-4 h-4 mr-2" />
+              )}
+              Claim All{claimablePositions.length > 0 ? ` (${claimablePositions.length})` : ""}
+            </Button>
+          )}
+          <Link href="/pools/add">
+            <Button className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold">
+              <Plus className="w-4 h-4 mr-2" />
+              New Position
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Portfolio Overview */}
@@ -223,7 +503,7 @@ export default function PositionsPage() {
 
       {/* Positions List */}
       <div className="space-y-4">
-        {positionsLoading ? (
+        {positionsLoading || poolsLoading ? (
           <Card className="glass-card border-white/5">
             <CardContent className="py-8 text-center">
               <Loader2 className="w-8 h-8 animate-spin text-[#00d4aa] mx-auto mb-2" />
@@ -249,6 +529,12 @@ export default function PositionsPage() {
           const tokenB = getTokenInfo(position.tokenB);
           const pool = MOCK_POOLS.find(p => p.id === position.poolId);
           const isExpanded = expandedPosition === position.id;
+          // stable_swap_pool has no add_liquidity_to_position to top a position up with
+          const isStablePosition = position.isReal && !!positionPools.find((p) => p.id === position.poolId)?.stable;
+          const compoundLp = compoundPreviews.get(position.id) ?? 0n;
+          const history = isExpanded ? positionHistory : undefined;
+          const compoundHistory = history?.compounds ?? [];
+          const transferHistory = history?.transfers ?? [];
 
           return (
             <Card key={position.id} className="glass-card border-white/5 overflow-hidden">
@@ -340,7 +626,7 @@ export default function PositionsPage() {
                           <div className="flex justify-between text-sm">
                             <span className="text-[#8b92a5]">LP Tokens</span>
                             <span className="font-mono text-white">
-                              {formatTokenAmount(position.lpTokens, 6, 4)}
+                              {formatLpTokens(position.lpTokens)}
                             </span>
                           </div>
                           <div className="flex justify-between text-sm">
@@ -363,6 +649,31 @@ export default function PositionsPage() {
                             </span>
                           </div>
                         </div>
+
+                        {transferHistory.length > 0 && (
+                          <>
+                            <Separator className="bg-white/5" />
+                            <div className="space-y-1">
+                              <div className="text-xs text-[#8b92a5]">Transfer History</div>
+                              {transferHistory.map((event) => (
+                                <div key={`${event.txDigest}-${event.eventSeq}`} className="flex justify-between text-xs">
+                                  <a
+                                    href={getTxUrl(event.txDigest)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-[#8b92a5] hover:text-[#00d4aa] flex items-center gap-1"
+                                  >
+                                    {event.timestampMs !== null ? new Date(event.timestampMs).toLocaleString() : "Pending"}
+                                    <ExternalLink className="w-3 h-3" />
+                                  </a>
+                                  <span className="font-mono text-white">
+                                    {event.from.slice(0, 6)}...{event.from.slice(-4)} → {event.to.slice(0, 6)}...{event.to.slice(-4)}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          </>
+                        )}
                       </div>
 
                       {/* Fees Earned */}
@@ -387,14 +698,65 @@ export default function PositionsPage() {
                               </span>
                             </div>
                           </div>
+                          {position.isReal && onChainFees && (
+                            onChainFees.feesA === position.feesEarnedA && onChainFees.feesB === position.feesEarnedB ? (
+                              <div className="mt-3 text-xs text-[#8b92a5]">
+                                Matches fee_distributor::calculate_claimable_fees
+                              </div>
+                            ) : (
+                              <div className="mt-3 flex items-start gap-2 text-xs text-[#f59e0b]">
+                                <AlertCircle className="w-3 h-3 mt-0.5" />
+                                <span>
+                                  On-chain: {formatTokenAmount(onChainFees.feesA, tokenA.decimals, 4)} {tokenA.symbol}
+                                  {" / "}
+                                  {formatTokenAmount(onChainFees.feesB, tokenB.decimals, 6)} {tokenB.symbol}
+                                </span>
+                              </div>
+                            )
+                          )}
                         </div>
 
-                        <div className="p-3 rounded-lg bg-[#1a2035] border border-white/5">
+                        {position.isReal && (
+                          <div className="space-y-2">
+                            <div className="flex justify-between text-sm">
+                              <span className="text-[#8b92a5]">Compound Preview</span>
+                              <span className="font-mono text-white">
+                                +{formatLpTokens(compoundLp)} LP
+                              </span>
+                            </div>
+                            {compoundHistory.length > 0 && (
+                              <div className="space-y-1">
+                                <div className="text-xs text-[#8b92a5]">Compound History</div>
+                                {compoundHistory.map((event) => (
+                                  <div key={`${event.txDigest}-${event.eventSeq}`} className="flex justify-between text-xs">
+                                    <a
+                                      href={getTxUrl(event.txDigest)}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="text-[#8b92a5] hover:text-[#00d4aa] flex items-center gap-1"
+                                    >
+                                      {event.timestampMs !== null ? new Date(event.timestampMs).toLocaleString() : "Pending"}
+                                      <ExternalLink className="w-3 h-3" />
+                                    </a>
+                                    <span className="font-mono text-white">
+                                      {formatTokenAmount(event.feeAmountA, tokenA.decimals, 4)} {tokenA.symbol} + {formatTokenAmount(event.feeAmountB, tokenB.decimals, 6)} {tokenB.symbol}
+                                      {" → "}
+                                      <span className="text-[#00d4aa]">+{formatLpTokens(event.additionalLpTokens)} LP</span>
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        <div className="p-3 rounded-lg bg-[#f59e0b]/10 border border-[#f59e0b]/20">
                           <div className="flex items-start gap-2">
-                            <Info className="w-4 h-4 text-[#8b92a5] mt-0.5" />
-                            <p className="text-xs text-[#8b92a5]">
-                              Fees are automatically compounded into your position. 
-                              You receive them when you remove liquidity.
+                            <AlertCircle className="w-4 h-4 text-[#f59e0b] mt-0.5" />
+                            <p className="text-xs text-[#f59e0b]">
+                              Claiming is disabled: fee_distributor::claim_fees_from_pool currently
+                              pays out zero coins and still resets your fee credit, so a claim would
+                              forfeit these fees. Compound to turn them into LP tokens instead.
                             </p>
                           </div>
                         </div>
@@ -403,6 +765,37 @@ export default function PositionsPage() {
 
                     {/* Actions */}
                     <div className="flex gap-3 mt-6 pt-4 border-t border-white/5">
+                      {position.isReal && (
+                        <Button
+                          variant="outline"
+                          className="flex-1 border-white/10 text-white hover:bg-white/5"
+                          disabled={!FEE_CLAIMS_ENABLED || !claimablePositions.includes(position) || claimingId !== null || isPending}
+                          onClick={() => handleClaimFees([position], position.id)}
+                          title={FEE_CLAIMS_ENABLED ? undefined : "Claiming is disabled: the fee distributor pays out zero coins"}
+                        >
+                          {claimingId === position.id ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <Coins className="w-4 h-4 mr-2" />
+                          )}
+                          Claim Fees
+                        </Button>
+                      )}
+                      {position.isReal && (
+                        <Button
+                          variant="outline"
+                          className="flex-1 border-white/10 text-white hover:bg-white/5"
+                          disabled={compoundLp === 0n || compoundingId !== null || isPending}
+                          onClick={() => handleCompound([position], position.id)}
+                        >
+                          {compoundingId === position.id ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          ) : (
+                            <TrendingUp className="w-4 h-4 mr-2" />
+                          )}
+                          Compound
+                        </Button>
+                      )}
                       <Dialog>
                         <DialogTrigger asChild>
                           <Button 
@@ -478,15 +871,58 @@ export default function PositionsPage() {
                                     )}
                                   </span>
                                 </div>
+                                <Separator className="bg-white/5" />
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-[#8b92a5]">Minimum received</span>
+                                  <span className="font-mono text-[#8b92a5]">
+                                    {formatTokenAmount(
+                                      calculateMinOutput(
+                                        (position.currentAmountA * BigInt(removeAmount)) / 100n,
+                                        Math.floor(removeSlippage * 100)
+                                      ),
+                                      tokenA.decimals,
+                                      4
+                                    )} {tokenA.symbol} / {formatTokenAmount(
+                                      calculateMinOutput(
+                                        (position.currentAmountB * BigInt(removeAmount)) / 100n,
+                                        Math.floor(removeSlippage * 100)
+                                      ),
+                                      tokenB.decimals,
+                                      6
+                                    )} {tokenB.symbol}
+                                  </span>
+                                </div>
                               </div>
                             )}
 
+                            <div>
+                              <label className="text-sm text-[#8b92a5] mb-2 block">
+                                Slippage Tolerance
+                              </label>
+                              <div className="flex gap-2">
+                                {SLIPPAGE_OPTIONS.map((option) => (
+                                  <Button
+                                    key={option}
+                                    size="sm"
+                                    variant={removeSlippage === option ? "default" : "outline"}
+                                    onClick={() => setRemoveSlippage(option)}
+                                    className={removeSlippage === option
+                                      ? "bg-[#00d4aa] text-[#0a0e1a]"
+                                      : "border-white/10 text-white"
+                                    }
+                                  >
+                                    {option}%
+                                  </Button>
+                                ))}
+                              </div>
+                            </div>
+
                             {removeAmount === "100" && (
                               <div className="p-3 rounded-lg bg-[#f59e0b]/10 border border-[#f59e0b]/20">
                                 <div className="flex items-start gap-2">
                                   <AlertCircle className="w-4 h-4 text-[#f59e0b] mt-0.5" />
                                   <p className="text-sm text-[#f59e0b]">
-                                    Removing 100% will burn your LP Position NFT.
+                                    Removing 100% will burn your LP Position NFT. Compound your fees first - pending fees are lost with it.
                                   </p>
                                 </div>
                               </div>
@@ -496,7 +932,7 @@ export default function PositionsPage() {
                           <DialogFooter>
                             <Button
                               onClick={handleRemoveLiquidity}
-                              disabled={!removeAmount || isRemoving}
+                              disabled={!removeAmount || isRemoving || isPending}
                               className="w-full bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
                             >
                               {isRemoving ? (
@@ -512,12 +948,103 @@ export default function PositionsPage() {
                         </DialogContent>
                       </Dialog>
 
-                      <Link href="/pools/add" className="flex-1">
-                        <Button className="w-full bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold">
+                      {position.isReal && (
+                        <Dialog onOpenChange={(open) => !open && setTransferAddress("")}>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="outline"
+                              className="flex-1 border-white/10 text-white hover:bg-white/5"
+                              onClick={() => setSelectedPosition(position)}
+                            >
+                              <Send className="w-4 h-4 mr-2" />
+                              Transfer
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent className="glass-card border-white/10">
+                            <DialogHeader>
+                              <DialogTitle className="text-white">Transfer Position</DialogTitle>
+                              <DialogDescription className="text-[#8b92a5]">
+                                Send this LP Position NFT, with its liquidity and pending fees, to another address.
+                              </DialogDescription>
+                            </DialogHeader>
+
+                            <div className="space-y-4 py-4">
+                              <div className="flex items-center gap-2">
+                                <span className="text-xl">{tokenA.icon}</span>
+                                <span className="text-xl">{tokenB.icon}</span>
+                                <span className="font-semibold text-white">
+                                  {position.tokenA}/{position.tokenB}
+                                </span>
+                                <span className="ml-auto font-mono text-white">
+                                  {formatUsd(position.valueUsd)}
+                                </span>
+                              </div>
+
+                              <div>
+                                <label className="text-sm text-[#8b92a5] mb-2 block">
+                                  Recipient Address
+                                </label>
+                                <Input
+                                  placeholder="0x..."
+                                  value={transferAddress}
+                                  onChange={(e) => setTransferAddress(e.target.value)}
+                                  className="bg-[#0a0e1a] border-white/10 font-mono text-white"
+                                />
+                                {transferError && (
+                                  <p className="text-xs text-[#ff4757] mt-2">{transferError}</p>
+                                )}
+                              </div>
+
+                              <div className="p-3 rounded-lg bg-[#f59e0b]/10 border border-[#f59e0b]/20">
+                                <div className="flex items-start gap-2">
+                                  <AlertCircle className="w-4 h-4 text-[#f59e0b] mt-0.5" />
+                                  <p className="text-sm text-[#f59e0b]">
+                                    Transfers can&apos;t be undone. Only the recipient will be able to manage this position.
+                                  </p>
+                                </div>
+                              </div>
+                            </div>
+
+                            <DialogFooter>
+                              <Button
+                                onClick={handleTransfer}
+                                disabled={!transferRecipient || !!transferError || isTransferring || isPending}
+                                className="w-full bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+                              >
+                                {isTransferring ? (
+                                  <>
+                                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                                    Transferring...
+                                  </>
+                                ) : (
+                                  "Confirm Transfer"
+                                )}
+                              </Button>
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
+                      )}
+
+                      {isStablePosition ? (
+                        <Button
+                          className="flex-1 bg-[#1a2035] text-[#8b92a5]"
+                          disabled
+                          title="Stable pool positions can't be increased: stable_swap_pool has no add_liquidity_to_position"
+                        >
                           <Plus className="w-4 h-4 mr-2" />
-                          Add More
+                          Increase
                         </Button>
-                      </Link>
+                      ) : (
+                        <Link
+                          href={position.isReal ? `/pools/add?position=${position.id}` : "/pools/add"}
+                          className="flex-1"
+                        >
+                          <Button className="w-full bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold">
+                            <Plus className="w-4 h-4 mr-2" />
+                            {position.isReal ? "Increase" : "Add More"}
+                          </Button>
+                        </Link>
+                      )}
 
                       <Button
                         variant="ghost"
@@ -1,20 +1,21 @@
 "use client";
 
-import { useState, useMemo, useEffect } from "react";
+import { useState, useMemo } from "react";
 import { 
   ArrowDownUp, 
   Settings, 
   Info, 
-  ChevronDown,
   Loader2,
   AlertTriangle,
-  Check,
-  ExternalLink
+  ExternalLink,
+  ShieldCheck,
+  X
 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -27,97 +28,219 @@ import {
   SelectContent,
   SelectItem,
   SelectTrigger,
-  SelectValue,
 } from "@/components/ui/select";
-import { useCurrentAccount, useSignAndExecuteTransaction, useSuiClient } from "@mysten/dapp-kit";
-import { Transaction } from "@mysten/sui/transactions";
+import { useCurrentAccount, useSignAndExecuteTransaction } from "@mysten/dapp-kit";
 import { toast } from "sonner";
 import { 
   DEMO_TOKENS, 
   TokenSymbol,
-  PACKAGE_ID,
-  MODULES,
   getObjectUrl,
   getTxUrl,
+  SLIPPAGE_DEFAULTS,
 } from "@/lib/sui/constants";
 import { 
-  calculateSwapOutput, 
-  calculatePriceImpact,
   formatTokenAmount,
+  formatTokenInput,
+  isTokenAmountInput,
   parseTokenAmount,
+  calculateMaxInput,
+  calculateLimitPrice,
+  fromLimitPrice,
+  toLimitPrice,
 } from "@/lib/sui/transactions";
-import { useTokenBalances, useAllPools } from "@/lib/sui/queries";
-import { MOCK_POOLS, formatUsd, formatNumber } from "@/lib/mock-data";
+import {
+  findBestTrade,
+  findBestRouteExactOut,
+  findPaths,
+  getRouteSpotRate,
+  toSplitRoute,
+  type RoutablePool,
+  type SwapRoute,
+} from "@/lib/sui/router";
+import {
+  useTokenBalances,
+  useAllPools,
+  useAmmClient,
+  usePriceLimitOrders,
+  useUserSlippageSettings,
+} from "@/lib/sui/queries";
+import type { PoolSummary, SwapSettings } from "@/lib/sui/client";
+import { MOCK_POOLS, formatNumber } from "@/lib/mock-data";
 
 const SLIPPAGE_OPTIONS = [0.1, 0.5, 1.0, 3.0];
 
+const LIMIT_EXPIRY_OPTIONS = [
+  { label: "1h", ms: 60 * 60 * 1000 },
+  { label: "1d", ms: 24 * 60 * 60 * 1000 },
+  { label: "7d", ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: "30d", ms: 30 * 24 * 60 * 60 * 1000 },
+];
+
+/** Hard stop for price impact (%), whatever the user's protection setting */
+const MAX_PRICE_IMPACT = 15;
+
+/** Settings used until the wallet has a UserSlippageSettings object */
+const DEFAULT_SWAP_SETTINGS: SwapSettings = {
+  slippageBps: SLIPPAGE_DEFAULTS.TOLERANCE_BPS,
+  deadlineMs: SLIPPAGE_DEFAULTS.DEADLINE_MS,
+  usePriceImpactProtection: true,
+  maxPriceImpactBps: SLIPPAGE_DEFAULTS.MAX_PRICE_IMPACT_BPS,
+};
+
+/** Fee tier label for a pool, marking stable pools */
+function poolFeeLabel(pool: RoutablePool): string {
+  return `${pool.feeTier / 100}%${pool.stable ? " stable" : ""}`;
+}
+
 export default function SwapPage() {
   const account = useCurrentAccount();
-  const client = useSuiClient();
+  const amm = useAmmClient();
   const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
   const { data: balances, refetch: refetchBalances } = useTokenBalances();
   const { data: realPools } = useAllPools();
+  const { data: savedSettings, refetch: refetchSettings } = useUserSlippageSettings();
 
   const [tokenFrom, setTokenFrom] = useState<TokenSymbol>("USDC");
   const [tokenTo, setTokenTo] = useState<TokenSymbol>("ETH");
   const [amountFrom, setAmountFrom] = useState("");
-  const [slippage, setSlippage] = useState(0.5);
+  const [amountTo, setAmountTo] = useState("");
+  // Which field the user typed in; "to" means exact-output mode
+  const [independentField, setIndependentField] = useState<"from" | "to">("from");
+  // Edits made in the settings dialog that aren't on-chain yet
+  const [draftSettings, setDraftSettings] = useState<SwapSettings | null>(null);
+  const [isSavingSettings, setIsSavingSettings] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [isSwapping, setIsSwapping] = useState(false);
 
-  // Find the relevant pool - prefer real pools, fallback to mock
-  const pool = useMemo(() => {
-    // First try to find a real pool from the blockchain
-    const realPool = realPools?.find(
-      (p) =>
-        (p.tokenA === tokenFrom && p.tokenB === tokenTo) ||
-        (p.tokenA === tokenTo && p.tokenB === tokenFrom)
-    );
-    if (realPool) return realPool;
-    
-    // Fallback to mock pool for demo
-    return MOCK_POOLS.find(
-      (p) =>
-        (p.tokenA === tokenFrom && p.tokenB === tokenTo) ||
-        (p.tokenA === tokenTo && p.tokenB === tokenFrom)
+  const settings = draftSettings ?? savedSettings ?? DEFAULT_SWAP_SETTINGS;
+  const slippage = settings.slippageBps / 100;
+  const priceImpactLimit = settings.usePriceImpactProtection
+    ? Math.min(MAX_PRICE_IMPACT, settings.maxPriceImpactBps / 100)
+    : MAX_PRICE_IMPACT;
+
+  const settingsError =
+    settings.slippageBps > SLIPPAGE_DEFAULTS.MAX_TOLERANCE_BPS
+      ? `Slippage tolerance can't exceed ${SLIPPAGE_DEFAULTS.MAX_TOLERANCE_BPS / 100}%`
+      : settings.deadlineMs < 60000
+      ? "Deadline must be at least 1 minute"
+      : settings.maxPriceImpactBps <= 0 || settings.maxPriceImpactBps > 10000
+      ? "Max price impact must be between 0.01% and 100%"
+      : null;
+
+  const updateSettings = (patch: Partial<SwapSettings>) => setDraftSettings({ ...settings, ...patch });
+
+  const isExactOut = independentField === "to";
+
+  // Find the best trade (single route or split across fee tiers) - prefer real pools, fallback to mock direct pairs
+  const exactInTrade = useMemo(() => {
+    if (isExactOut || !isTokenAmountInput(amountFrom)) return null;
+
+    const amountIn = parseTokenAmount(amountFrom, DEMO_TOKENS[tokenFrom].decimals);
+    if (amountIn === 0n) return null;
+
+    // First try to route through real pools from the blockchain
+    const realTrade = findBestTrade(realPools ?? [], tokenFrom, tokenTo, amountIn);
+    if (realTrade) return realTrade;
+
+    // Fallback to a mock pool for demo
+    return findBestTrade(MOCK_POOLS, tokenFrom, tokenTo, amountIn, 1);
+  }, [isExactOut, tokenFrom, tokenTo, amountFrom, realPools]);
+
+  // Exact-output mode: find the route needing the least input
+  const exactOutRoute = useMemo<SwapRoute | null>(() => {
+    if (!isExactOut || !isTokenAmountInput(amountTo)) return null;
+
+    const amountOut = parseTokenAmount(amountTo, DEMO_TOKENS[tokenTo].decimals);
+    if (amountOut === 0n) return null;
+
+    return (
+      findBestRouteExactOut(realPools ?? [], tokenFrom, tokenTo, amountOut) ??
+      findBestRouteExactOut(MOCK_POOLS, tokenFrom, tokenTo, amountOut, 1)
     );
-  }, [tokenFrom, tokenTo, realPools]);
-  
-  // Check if this is a real on-chain pool
-  const isRealPool = realPools?.some(p => p.id === pool?.id) ?? false;
-
-  // Calculate output amount
-  const { amountOut, priceImpact, rate } = useMemo(() => {
-    if (!pool || !amountFrom || isNaN(parseFloat(amountFrom))) {
-      return { amountOut: "0", priceImpact: 0, rate: 0 };
+  }, [isExactOut, tokenFrom, tokenTo, amountTo, realPools]);
+
+  const trade = isExactOut ? (exactOutRoute && toSplitRoute(exactOutRoute)) : exactInTrade;
+  const independentAmount = isExactOut ? amountTo : amountFrom;
+  const hasAmount = isTokenAmountInput(independentAmount) && parseFloat(independentAmount) > 0;
+
+  // Whether the pair is reachable at all, so "Pool Not Found" doesn't flash before an amount is typed
+  const hasRoute = useMemo(
+    () =>
+      findPaths(realPools ?? [], tokenFrom, tokenTo).length > 0 ||
+      findPaths(MOCK_POOLS, tokenFrom, tokenTo, 1).length > 0,
+    [tokenFrom, tokenTo, realPools]
+  );
+
+  // Every pool the trade touches, in leg order
+  const tradePools = useMemo(
+    () => trade?.legs.flatMap((leg) => leg.hops.map((hop) => hop.pool)) ?? [],
+    [trade]
+  );
+
+  // Check if every hop goes through a real on-chain pool
+  const isRealTrade = tradePools.length > 0 && tradePools.every((pool) => realPools?.some((p) => p.id === pool.id));
+
+  // Calculate amounts, with the slippage bound on whichever side isn't fixed
+  const { amountIn, amountOut, priceImpact, rate, minAmountOut, maxAmountIn } = useMemo(() => {
+    if (!trade) {
+      return { amountIn: "0", amountOut: "0", priceImpact: 0, rate: 0, minAmountOut: 0n, maxAmountIn: 0n };
     }
 
     const tokenFromInfo = DEMO_TOKENS[tokenFrom];
     const tokenToInfo = DEMO_TOKENS[tokenTo];
-    const amountIn = parseTokenAmount(amountFrom, tokenFromInfo.decimals);
 
-    const isAToB = pool.tokenA === tokenFrom;
-    const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
-    const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+    return {
+      amountIn: formatTokenAmount(trade.amountIn, tokenFromInfo.decimals, 6),
+      amountOut: formatTokenAmount(trade.amountOut, tokenToInfo.decimals, 6),
+      priceImpact: trade.priceImpactBps / 100, // Convert from basis points to percentage
+      rate: getRouteSpotRate(trade.legs[0], tokenFromInfo.decimals, tokenToInfo.decimals),
+      minAmountOut: trade.amountOut - (trade.amountOut * BigInt(Math.floor(slippage * 100))) / 10000n,
+      maxAmountIn: calculateMaxInput(trade.amountIn, Math.floor(slippage * 100)),
+    };
+  }, [trade, tokenFrom, tokenTo, slippage]);
 
-    const output = calculateSwapOutput(amountIn, reserveIn, reserveOut, pool.feeTier);
-    const impact = calculatePriceImpact(amountIn, reserveIn, reserveOut, pool.feeTier);
+  // Write the dialog's settings to the wallet's UserSlippageSettings, creating it on first save
+  const handleSaveSettings = () => {
+    if (!account || settingsError) return;
 
-    // Calculate rate
-    const rateValue = Number(reserveOut) / Number(reserveIn);
+    setIsSavingSettings(true);
 
-    return {
-      amountOut: formatTokenAmount(output, tokenToInfo.decimals, 6),
-      priceImpact: impact / 100, // Convert from basis points to percentage
-      rate: rateValue,
-    };
-  }, [pool, amountFrom, tokenFrom, tokenTo]);
+    const tx = savedSettings
+      ? amm.buildUpdateUserSettings({ settingsId: savedSettings.id, settings })
+      : amm.buildCreateUserSettings({ settings, owner: account.address });
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: async (result) => {
+          toast.success(savedSettings ? "Settings Saved" : "Settings Created", {
+            description: "Your swap settings are stored on-chain",
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          await refetchSettings();
+          setDraftSettings(null);
+          setIsSavingSettings(false);
+        },
+        onError: (error) => {
+          toast.error("Failed to save settings", {
+            description: error.message,
+          });
+          setIsSavingSettings(false);
+        },
+      }
+    );
+  };
 
   // Swap tokens direction
   const handleSwapDirection = () => {
     setTokenFrom(tokenTo);
     setTokenTo(tokenFrom);
     setAmountFrom("");
+    setAmountTo("");
+    setIndependentField("from");
   };
 
   // Get balance for display
@@ -131,12 +254,13 @@ export default function SwapPage() {
   const handleMax = () => {
     if (!balances || !balances[tokenFrom]) return;
     const token = DEMO_TOKENS[tokenFrom];
-    setAmountFrom(formatTokenAmount(balances[tokenFrom].balance, token.decimals, token.decimals));
+    setAmountFrom(formatTokenInput(balances[tokenFrom].balance, token.decimals));
+    setIndependentField("from");
   };
 
   // Execute swap
   const handleSwap = async () => {
-    if (!account || !pool || !amountFrom) return;
+    if (!account || !trade) return;
 
     setIsSwapping(true);
     
@@ -145,49 +269,33 @@ export default function SwapPage() {
     });
 
     try {
-      // Check if this is a real on-chain pool
-      if (isRealPool && balances?.[tokenFrom]?.objects.length) {
-        // Build real transaction
-        const tokenFromInfo = DEMO_TOKENS[tokenFrom];
-        const tokenToInfo = DEMO_TOKENS[tokenTo];
-        const amountIn = parseTokenAmount(amountFrom, tokenFromInfo.decimals);
-        
-        // Calculate minimum output with slippage
-        const expectedOut = parseTokenAmount(amountOut, tokenToInfo.decimals);
-        const minAmountOut = expectedOut - (expectedOut * BigInt(Math.floor(slippage * 100))) / 10000n;
-        
-        const isAToB = pool.tokenA === tokenFrom;
-        
-        const tx = new Transaction();
-        
-        // Get the user's coin objects for the input token
-        const coinObjects = balances[tokenFrom].objects;
-        
-        // Merge coins if needed and split exact amount
-        if (coinObjects.length > 1) {
-          const [primaryCoin, ...otherCoins] = coinObjects;
-          tx.mergeCoins(tx.object(primaryCoin), otherCoins.map(id => tx.object(id)));
-        }
-        
-        const coinToSwap = tx.splitCoins(tx.object(coinObjects[0]), [tx.pure.u64(amountIn)]);
-        
-        // Call the swap function
-        const swapFunction = isAToB ? "swap_a_for_b" : "swap_b_for_a";
-        const coinOut = tx.moveCall({
-          target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::${swapFunction}`,
-          typeArguments: [
-            DEMO_TOKENS[pool.tokenA].type,
-            DEMO_TOKENS[pool.tokenB].type,
-          ],
-          arguments: [
-            tx.object(pool.id),
-            coinToSwap,
-            tx.pure.u64(minAmountOut),
-          ],
-        });
-        
-        // Transfer the output coin to the user
-        tx.transferObjects([coinOut], tx.pure.address(account.address));
+      // Check if every hop is a real on-chain pool
+      if (isRealTrade && balances) {
+        // Expire the swap after the user's deadline and, once they have on-chain
+        // settings, validate it against them before any swap runs
+        const protection = {
+          deadlineMs: Date.now() + settings.deadlineMs,
+          userSettings: savedSettings ?? undefined,
+        };
+
+        // Build real transaction, running every leg and hop in one PTB
+        // (coin selection throws a readable error if the balance can't cover it)
+        const tx = isExactOut
+          ? amm.buildExactOutputSwap({
+              route: trade.legs[0],
+              coins: balances[tokenFrom].coins,
+              amountOut: trade.amountOut,
+              maxAmountIn,
+              recipient: account.address,
+              protection,
+            })
+          : amm.buildSplitSwap({
+              split: trade,
+              coins: balances[tokenFrom].coins,
+              minAmountOut,
+              recipient: account.address,
+              protection,
+            });
         
         // Execute the transaction
         signAndExecute(
@@ -195,13 +303,16 @@ export default function SwapPage() {
           {
             onSuccess: (result) => {
               toast.success("Swap Successful!", {
-                description: `Swapped ${amountFrom} ${tokenFrom} for ~${amountOut} ${tokenTo}`,
+                description: isExactOut
+                  ? `Swapped ~${amountIn} ${tokenFrom} for ${amountOut} ${tokenTo}`
+                  : `Swapped ${amountFrom} ${tokenFrom} for ~${amountOut} ${tokenTo}`,
                 action: {
                   label: "View",
                   onClick: () => window.open(getTxUrl(result.digest), "_blank"),
                 },
               });
               setAmountFrom("");
+              setAmountTo("");
               refetchBalances();
               setIsSwapping(false);
             },
@@ -220,10 +331,11 @@ export default function SwapPage() {
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
       toast.success("Swap Simulated!", {
-        description: `Demo: ${amountFrom} ${tokenFrom} → ${amountOut} ${tokenTo}. Connect to a real pool for actual swaps.`,
+        description: `Demo: ${amountIn} ${tokenFrom} → ${amountOut} ${tokenTo}. Connect to a real pool for actual swaps.`,
       });
 
       setAmountFrom("");
+      setAmountTo("");
       refetchBalances();
     } catch (error) {
       toast.error("Swap Failed", {
@@ -237,13 +349,6 @@ export default function SwapPage() {
   const tokenFromInfo = DEMO_TOKENS[tokenFrom];
   const tokenToInfo = DEMO_TOKENS[tokenTo];
 
-  const isValidSwap = 
-    account && 
-    pool && 
-    amountFrom && 
-    parseFloat(amountFrom) > 0 && 
-    priceImpact < 15;
-
   return (
     <div className="max-w-lg mx-auto">
       {/* Header */}
@@ -271,7 +376,7 @@ export default function SwapPage() {
                       key={option}
                       variant={slippage === option ? "default" : "outline"}
                       size="sm"
-                      onClick={() => setSlippage(option)}
+                      onClick={() => updateSettings({ slippageBps: Math.round(option * 100) })}
                       className={slippage === option 
                         ? "bg-[#00d4aa] text-[#0a0e1a]" 
                         : "border-white/10 text-white hover:bg-white/5"
@@ -290,193 +395,336 @@ export default function SwapPage() {
                   </p>
                 </div>
               </div>
+              <div>
+                <label className="text-sm text-[#8b92a5] mb-2 block">Transaction Deadline</label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={settings.deadlineMs / 60000}
+                    onChange={(e) => updateSettings({ deadlineMs: Math.round((parseFloat(e.target.value) || 0) * 60000) })}
+                    className="w-24 bg-[#0a0e1a] border-white/10 text-white font-mono"
+                  />
+                  <span className="text-sm text-[#8b92a5]">minutes</span>
+                </div>
+              </div>
+              <div>
+                <label className="text-sm text-[#8b92a5] mb-2 block">Max Price Impact</label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    step={0.1}
+                    value={settings.maxPriceImpactBps / 100}
+                    disabled={!settings.usePriceImpactProtection}
+                    onChange={(e) => updateSettings({ maxPriceImpactBps: Math.round((parseFloat(e.target.value) || 0) * 100) })}
+                    className="w-24 bg-[#0a0e1a] border-white/10 text-white font-mono"
+                  />
+                  <span className="text-sm text-[#8b92a5]">%</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => updateSettings({ usePriceImpactProtection: !settings.usePriceImpactProtection })}
+                    className={settings.usePriceImpactProtection
+                      ? "border-[#00d4aa]/30 text-[#00d4aa] hover:bg-[#00d4aa]/10"
+                      : "border-white/10 text-[#8b92a5] hover:bg-white/5"
+                    }
+                  >
+                    <ShieldCheck className="w-4 h-4 mr-1" />
+                    {settings.usePriceImpactProtection ? "On" : "Off"}
+                  </Button>
+                </div>
+              </div>
+              {settingsError && <p className="text-xs text-[#ff4757]">{settingsError}</p>}
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-xs text-[#8b92a5]">
+                  {!account
+                    ? "Connect a wallet to keep these settings"
+                    : draftSettings
+                    ? "Unsaved changes"
+                    : savedSettings
+                    ? "Synced with your on-chain settings"
+                    : "Using defaults, not saved on-chain yet"}
+                </span>
+                <Button
+                  size="sm"
+                  onClick={handleSaveSettings}
+                  disabled={!account || !draftSettings || !!settingsError || isSavingSettings}
+                  className="bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] font-semibold"
+                >
+                  {isSavingSettings && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {savedSettings ? "Save" : "Create Settings"}
+                </Button>
+              </div>
             </div>
           </DialogContent>
         </Dialog>
       </div>
 
-      {/* Swap Card */}
-      <Card className="glass-card border-white/5">
-        <CardContent className="p-4 space-y-2">
-          {/* From Token */}
-          <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm text-[#8b92a5]">From</span>
-              <span className="text-sm text-[#8b92a5]">
-                Balance: <span className="font-mono">{getBalance(tokenFrom)}</span>
-                {account && (
-                  <button 
-                    onClick={handleMax}
-                    className="ml-2 text-[#00d4aa] hover:underline"
-                  >
-                    MAX
-                  </button>
-                )}
-              </span>
-            </div>
-            <div className="flex items-center gap-3">
-              <Input
-                type="text"
-                placeholder="0.00"
-                value={amountFrom}
-                onChange={(e) => setAmountFrom(e.target.value)}
-                className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
-              />
-              <TokenSelector
-                value={tokenFrom}
-                onChange={setTokenFrom}
-                exclude={tokenTo}
-              />
-            </div>
-          </div>
+      <Tabs defaultValue="market" className="gap-4">
+        <TabsList className="w-full bg-[#1a2035]">
+          <TabsTrigger
+            value="market"
+            className="text-[#8b92a5] data-[state=active]:bg-[#00d4aa] data-[state=active]:text-[#0a0e1a]"
+          >
+            Swap
+          </TabsTrigger>
+          <TabsTrigger
+            value="limit"
+            className="text-[#8b92a5] data-[state=active]:bg-[#00d4aa] data-[state=active]:text-[#0a0e1a]"
+          >
+            Limit
+          </TabsTrigger>
+        </TabsList>
 
-          {/* Swap Direction Button */}
-          <div className="flex justify-center -my-4 relative z-10">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleSwapDirection}
-              className="w-10 h-10 rounded-xl bg-[#1a2035] border border-white/10 hover:bg-[#00d4aa]/10 hover:border-[#00d4aa]/30 transition-all"
-            >
-              <ArrowDownUp className="w-4 h-4 text-[#8b92a5]" />
-            </Button>
-          </div>
+        <TabsContent value="market">
+          {/* Swap Card */}
+          <Card className="glass-card border-white/5">
+            <CardContent className="p-4 space-y-2">
+              {/* From Token */}
+              <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-[#8b92a5]">From</span>
+                  <span className="text-sm text-[#8b92a5]">
+                    Balance: <span className="font-mono">{getBalance(tokenFrom)}</span>
+                    {account && (
+                      <button 
+                        onClick={handleMax}
+                        className="ml-2 text-[#00d4aa] hover:underline"
+                      >
+                        MAX
+                      </button>
+                    )}
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="text"
+                    placeholder="0.00"
+                    value={isExactOut ? (trade ? formatTokenInput(trade.amountIn, tokenFromInfo.decimals, 6) : "") : amountFrom}
+                    onChange={(e) => {
+                      setAmountFrom(e.target.value);
+                      setIndependentField("from");
+                    }}
+                    className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
+                  />
+                  <TokenSelector
+                    value={tokenFrom}
+                    onChange={setTokenFrom}
+                    exclude={tokenTo}
+                  />
+                </div>
+              </div>
 
-          {/* To Token */}
-          <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
-            <div className="flex items-center justify-between mb-2">
-              <span className="text-sm text-[#8b92a5]">To</span>
-              <span className="text-sm text-[#8b92a5]">
-                Balance: <span className="font-mono">{getBalance(tokenTo)}</span>
-              </span>
-            </div>
-            <div className="flex items-center gap-3">
-              <div className="flex-1 text-2xl font-mono text-white">
-                {amountOut !== "0" ? amountOut : "0.00"}
+              {/* Swap Direction Button */}
+              <div className="flex justify-center -my-4 relative z-10">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={handleSwapDirection}
+                  className="w-10 h-10 rounded-xl bg-[#1a2035] border border-white/10 hover:bg-[#00d4aa]/10 hover:border-[#00d4aa]/30 transition-all"
+                >
+                  <ArrowDownUp className="w-4 h-4 text-[#8b92a5]" />
+                </Button>
               </div>
-              <TokenSelector
-                value={tokenTo}
-                onChange={setTokenTo}
-                exclude={tokenFrom}
-              />
-            </div>
-          </div>
-        </CardContent>
-      </Card>
 
-      {/* Swap Details */}
-      {pool && amountFrom && parseFloat(amountFrom) > 0 && (
-        <Card className="glass-card border-white/5 mt-4">
-          <CardContent className="p-4 space-y-3">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-[#8b92a5]">Rate</span>
-              <span className="text-white font-mono">
-                1 {tokenFrom} = {formatNumber(rate, 6)} {tokenTo}
-              </span>
-            </div>
+              {/* To Token */}
+              <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm text-[#8b92a5]">To</span>
+                  <span className="text-sm text-[#8b92a5]">
+                    Balance: <span className="font-mono">{getBalance(tokenTo)}</span>
+                  </span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Input
+                    type="text"
+                    placeholder="0.00"
+                    value={isExactOut ? amountTo : (trade ? formatTokenInput(trade.amountOut, tokenToInfo.decimals, 6) : "")}
+                    onChange={(e) => {
+                      setAmountTo(e.target.value);
+                      setIndependentField("to");
+                    }}
+                    className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
+                  />
+                  <TokenSelector
+                    value={tokenTo}
+                    onChange={setTokenTo}
+                    exclude={tokenFrom}
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Swap Details */}
+          {trade && (
+            <Card className="glass-card border-white/5 mt-4">
+              <CardContent className="p-4 space-y-3">
+                {trade.legs.map((leg, index) => (
+                  <div key={index} className="flex items-center justify-between text-sm">
+                    <span className="text-[#8b92a5]">
+                      {trade.legs.length > 1
+                        ? `Route ${index + 1} (${Number((leg.amountIn * 10000n) / trade.amountIn) / 100}%)`
+                        : "Route"}
+                    </span>
+                    <span className="text-white font-mono">
+                      {[leg.tokenIn, ...leg.hops.map((hop) => hop.tokenOut)].join(" → ")}
+                      {trade.legs.length > 1 && ` @ ${poolFeeLabel(leg.hops[0].pool)}`}
+                    </span>
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-[#8b92a5]">Rate</span>
+                  <span className="text-white font-mono">
+                    1 {tokenFrom} = {formatNumber(rate, 6)} {tokenTo}
+                  </span>
+                </div>
             
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-[#8b92a5]">Price Impact</span>
-              <span className={`font-mono ${
-                priceImpact > 5 ? 'text-[#ff4757]' : 
-                priceImpact > 1 ? 'text-[#f59e0b]' : 
-                'text-[#00d4aa]'
-              }`}>
-                {priceImpact.toFixed(2)}%
-              </span>
-            </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-[#8b92a5]">Price Impact</span>
+                  <span className={`font-mono ${
+                    priceImpact > 5 ? 'text-[#ff4757]' : 
+                    priceImpact > 1 ? 'text-[#f59e0b]' : 
+                    'text-[#00d4aa]'
+                  }`}>
+                    {priceImpact.toFixed(2)}%
+                  </span>
+                </div>
             
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-[#8b92a5]">Slippage Tolerance</span>
-              <span className="text-white font-mono">{slippage}%</span>
-            </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-[#8b92a5]">Slippage Tolerance</span>
+                  <span className="text-white font-mono">{slippage}%</span>
+                </div>
+
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-[#8b92a5]">Expires After</span>
+                  <span className="text-white font-mono">{formatNumber(settings.deadlineMs / 60000, 0)} min</span>
+                </div>
             
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-[#8b92a5]">Fee</span>
-              <span className="text-white font-mono">{pool.feeTier / 100}%</span>
-            </div>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-[#8b92a5]">Fee</span>
+                  <span className="text-white font-mono">
+                    {trade.legs.length > 1
+                      ? trade.legs.map((leg) => poolFeeLabel(leg.hops[0].pool)).join(" / ")
+                      : trade.legs[0].hops.map((hop) => poolFeeLabel(hop.pool)).join(" + ")}
+                  </span>
+                </div>
 
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-[#8b92a5]">Minimum Received</span>
-              <span className="text-white font-mono">
-                {formatNumber(parseFloat(amountOut) * (1 - slippage / 100), 6)} {tokenTo}
-              </span>
-            </div>
+                {isExactOut ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-[#8b92a5]">Maximum Sold</span>
+                    <span className="text-white font-mono">
+                      {formatTokenAmount(maxAmountIn, tokenFromInfo.decimals, 6)} {tokenFrom}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-[#8b92a5]">Minimum Received</span>
+                    <span className="text-white font-mono">
+                      {formatTokenAmount(minAmountOut, tokenToInfo.decimals, 6)} {tokenTo}
+                    </span>
+                  </div>
+                )}
 
-            {priceImpact > 5 && (
-              <div className="flex items-start gap-2 p-3 rounded-lg bg-[#ff4757]/10 border border-[#ff4757]/20">
-                <AlertTriangle className="w-4 h-4 text-[#ff4757] mt-0.5" />
-                <div className="text-sm text-[#ff4757]">
-                  High price impact! You may receive significantly less tokens.
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      )}
+                {priceImpact > 5 && (
+                  <div className="flex items-start gap-2 p-3 rounded-lg bg-[#ff4757]/10 border border-[#ff4757]/20">
+                    <AlertTriangle className="w-4 h-4 text-[#ff4757] mt-0.5" />
+                    <div className="text-sm text-[#ff4757]">
+                      High price impact! You may receive significantly less tokens.
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
-      {/* Swap Button */}
-      <div className="mt-4">
-        {!account ? (
-          <Button 
-            className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5] hover:bg-[#1a2035]"
-            disabled
-          >
-            Connect Wallet to Swap
-          </Button>
-        ) : !pool ? (
-          <Button 
-            className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
-            disabled
-          >
-            Pool Not Found
-          </Button>
-        ) : !amountFrom || parseFloat(amountFrom) === 0 ? (
-          <Button 
-            className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
-            disabled
-          >
-            Enter Amount
-          </Button>
-        ) : priceImpact > 15 ? (
-          <Button 
-            className="w-full h-14 text-lg font-semibold bg-[#ff4757]/20 text-[#ff4757] hover:bg-[#ff4757]/30"
-            disabled
-          >
-            Price Impact Too High
-          </Button>
-        ) : (
-          <Button 
-            onClick={handleSwap}
-            disabled={isSwapping || isPending}
-            className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] hover:opacity-90 transition-opacity"
-          >
-            {isSwapping || isPending ? (
-              <>
-                <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-                Swapping...
-              </>
+          {/* Swap Button */}
+          <div className="mt-4">
+            {!account ? (
+              <Button 
+                className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5] hover:bg-[#1a2035]"
+                disabled
+              >
+                Connect Wallet to Swap
+              </Button>
+            ) : !hasRoute ? (
+              <Button 
+                className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
+                disabled
+              >
+                Pool Not Found
+              </Button>
+            ) : !hasAmount ? (
+              <Button 
+                className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
+                disabled
+              >
+                Enter Amount
+              </Button>
+            ) : !trade ? (
+              <Button 
+                className="w-full h-14 text-lg font-semibold bg-[#1a2035] text-[#8b92a5]"
+                disabled
+              >
+                Insufficient Liquidity
+              </Button>
+            ) : priceImpact >= priceImpactLimit ? (
+              <Button 
+                className="w-full h-14 text-lg font-semibold bg-[#ff4757]/20 text-[#ff4757] hover:bg-[#ff4757]/30"
+                disabled
+              >
+                Price Impact Too High
+              </Button>
             ) : (
-              `Swap ${tokenFrom} for ${tokenTo}`
+              <Button 
+                onClick={handleSwap}
+                disabled={isSwapping || isPending}
+                className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] hover:opacity-90 transition-opacity"
+              >
+                {isSwapping || isPending ? (
+                  <>
+                    <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+                    Swapping...
+                  </>
+                ) : (
+                  `Swap ${tokenFrom} for ${tokenTo}`
+                )}
+              </Button>
             )}
-          </Button>
-        )}
-      </div>
+          </div>
 
-      {/* Pool Info */}
-      {pool && (
-        <div className="mt-4 text-center">
-          <a 
-            href={getObjectUrl(pool.id)}
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-sm text-[#8b92a5] hover:text-[#00d4aa] inline-flex items-center gap-1"
-          >
-            View Pool on Explorer
-            <ExternalLink className="w-3 h-3" />
-          </a>
-        </div>
-      )}
+          {/* Pool Info */}
+          {trade && (
+            <div className="mt-4 flex flex-col items-center gap-1">
+              {tradePools.map((pool) => (
+                <a 
+                  key={pool.id}
+                  href={getObjectUrl(pool.id)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-sm text-[#8b92a5] hover:text-[#00d4aa] inline-flex items-center gap-1"
+                >
+                  {tradePools.length > 1
+                    ? `View ${pool.tokenA}/${pool.tokenB} ${poolFeeLabel(pool)} Pool on Explorer`
+                    : "View Pool on Explorer"}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              ))}
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="limit">
+          <LimitOrderPanel
+            pools={realPools ?? []}
+            tokenIn={tokenFrom}
+            tokenOut={tokenTo}
+            onTokenInChange={setTokenFrom}
+            onTokenOutChange={setTokenTo}
+          />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
@@ -527,3 +775,352 @@ function TokenSelector({
   );
 }
 
+
+/**
+ * Limit tab: place PriceLimitOrders against a constant product pool and manage open ones.
+ * Prices are entered and shown as `tokenOut` per 1 `tokenIn`; on-chain they are stored as
+ * raw output per raw input times 10000.
+ */
+function LimitOrderPanel({
+  pools,
+  tokenIn,
+  tokenOut,
+  onTokenInChange,
+  onTokenOutChange,
+}: {
+  pools: PoolSummary[];
+  tokenIn: TokenSymbol;
+  tokenOut: TokenSymbol;
+  onTokenInChange: (value: TokenSymbol) => void;
+  onTokenOutChange: (value: TokenSymbol) => void;
+}) {
+  const account = useCurrentAccount();
+  const { mutate: signAndExecute, isPending } = useSignAndExecuteTransaction();
+  const amm = useAmmClient();
+  const { data: orders, dataUpdatedAt, refetch: refetchOrders } = usePriceLimitOrders();
+
+  const [amount, setAmount] = useState("");
+  const [price, setPrice] = useState("");
+  const [expiryMs, setExpiryMs] = useState(LIMIT_EXPIRY_OPTIONS[1].ms);
+  const [pendingOrderId, setPendingOrderId] = useState<string | null>(null);
+
+  const amountIn = isTokenAmountInput(amount)
+    ? parseTokenAmount(amount, DEMO_TOKENS[tokenIn].decimals)
+    : 0n;
+  const amountError = amount && !isTokenAmountInput(amount) ? "Enter a plain decimal amount, e.g. 1.5" : null;
+
+  // Orders can only reference constant product pools; use the one paying the most right now
+  const { pool, marketPrice } = useMemo(() => {
+    const quoteAmount = amountIn > 0n ? amountIn : 10n ** BigInt(DEMO_TOKENS[tokenIn].decimals);
+    let best: { pool: PoolSummary; price: bigint } | null = null;
+
+    for (const candidate of pools) {
+      if (candidate.stable) continue;
+      if (!((candidate.tokenA === tokenIn && candidate.tokenB === tokenOut) ||
+            (candidate.tokenA === tokenOut && candidate.tokenB === tokenIn))) continue;
+
+      const isAToB = candidate.tokenA === tokenIn;
+      const quoted = calculateLimitPrice(
+        quoteAmount,
+        isAToB ? candidate.reserveA : candidate.reserveB,
+        isAToB ? candidate.reserveB : candidate.reserveA,
+        candidate.feeTier
+      );
+      if (!best || quoted > best.price) {
+        best = { pool: candidate, price: quoted };
+      }
+    }
+
+    return {
+      pool: best?.pool ?? null,
+      marketPrice: best ? fromLimitPrice(best.price, tokenIn, tokenOut) : 0,
+    };
+  }, [pools, tokenIn, tokenOut, amountIn]);
+
+  const minPrice = isTokenAmountInput(price) ? toLimitPrice(price, tokenIn, tokenOut) : 0n;
+  const storedPrice = fromLimitPrice(minPrice, tokenIn, tokenOut);
+  const priceStep = fromLimitPrice(1n, tokenIn, tokenOut);
+  const minReceived = parseFloat(amount || "0") * storedPrice;
+
+  const priceError = !price
+    ? null
+    : !isTokenAmountInput(price)
+    ? "Enter a plain decimal price, e.g. 1.0025"
+    : minPrice === 0n
+    ? `Below the smallest price the contract can store (${formatNumber(priceStep, 8)} ${tokenOut})`
+    : null;
+  const canCreate = !!account && !!pool && amountIn > 0n && minPrice > 0n && !isPending;
+
+  const handleCreate = () => {
+    if (!account || !pool || !canCreate) return;
+
+    const tx = amm.buildCreateLimitOrder({
+      pool: { coinAType: pool.coinAType, coinBType: pool.coinBType, poolId: pool.id },
+      amountIn,
+      minPrice,
+      isAToB: pool.tokenA === tokenIn,
+      durationMs: expiryMs,
+      owner: account.address,
+    });
+
+    setPendingOrderId("new");
+
+    signAndExecute(
+      { transaction: tx },
+      {
+        onSuccess: (result) => {
+          toast.success("Limit Order Created", {
+            description: `Sell ${amount} ${tokenIn} at ${formatNumber(storedPrice, 6)} ${tokenOut} or better`,
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          setAmount("");
+          setPrice("");
+          refetchOrders();
+          setPendingOrderId(null);
+        },
+        onError: (error) => {
+          toast.error("Failed to create order", {
+            description: error.message,
+          });
+          setPendingOrderId(null);
+        },
+      }
+    );
+  };
+
+  const handleCancel = (orderId: string) => {
+    setPendingOrderId(orderId);
+
+    signAndExecute(
+      { transaction: amm.buildCancelLimitOrder({ orderId }) },
+      {
+        onSuccess: (result) => {
+          toast.success("Order Cancelled", {
+            action: {
+              label: "View",
+              onClick: () => window.open(getTxUrl(result.digest), "_blank"),
+            },
+          });
+          refetchOrders();
+          setPendingOrderId(null);
+        },
+        onError: (error) => {
+          toast.error("Failed to cancel order", {
+            description: error.message,
+          });
+          setPendingOrderId(null);
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card border-white/5">
+        <CardContent className="p-4 space-y-3">
+          {/* Sell */}
+          <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
+            <div className="text-sm text-[#8b92a5] mb-2">Sell</div>
+            <div className="flex items-center gap-3">
+              <Input
+                type="text"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
+              />
+              <TokenSelector value={tokenIn} onChange={onTokenInChange} exclude={tokenOut} />
+            </div>
+            {amountError && <p className="text-xs text-[#ff4757] mt-2">{amountError}</p>}
+          </div>
+
+          {/* Target price */}
+          <div className="p-4 rounded-xl bg-[#0a0e1a] border border-white/5">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm text-[#8b92a5]">Price ({tokenOut} per {tokenIn})</span>
+              {marketPrice > 0 && (
+                <button
+                  onClick={() => setPrice(marketPrice.toFixed(6))}
+                  className="text-sm text-[#00d4aa] hover:underline"
+                >
+                  Market: {formatNumber(marketPrice, 6)}
+                </button>
+              )}
+            </div>
+            <div className="flex items-center gap-3">
+              <Input
+                type="text"
+                placeholder="0.00"
+                value={price}
+                onChange={(e) => setPrice(e.target.value)}
+                className="flex-1 bg-transparent border-none text-2xl font-mono text-white placeholder:text-[#4a5068] focus-visible:ring-0 p-0"
+              />
+              <TokenSelector value={tokenOut} onChange={onTokenOutChange} exclude={tokenIn} />
+            </div>
+            {priceError && <p className="text-xs text-[#ff4757] mt-2">{priceError}</p>}
+            {!priceError && minPrice > 0n && Math.abs(storedPrice - parseFloat(price)) > priceStep / 2 && (
+              <p className="text-xs text-[#f59e0b] mt-2">
+                Stored as {formatNumber(storedPrice, 8)} {tokenOut}, the nearest price the contract can represent
+              </p>
+            )}
+          </div>
+
+          {/* Expiry */}
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-[#8b92a5]">Expires in</span>
+            <div className="flex gap-2">
+              {LIMIT_EXPIRY_OPTIONS.map((option) => (
+                <Button
+                  key={option.label}
+                  variant={expiryMs === option.ms ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setExpiryMs(option.ms)}
+                  className={expiryMs === option.ms
+                    ? "bg-[#00d4aa] text-[#0a0e1a]"
+                    : "border-white/10 text-white hover:bg-white/5"
+                  }
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {amountIn > 0n && minPrice > 0n && (
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-[#8b92a5]">Receive at least</span>
+              <span className="text-white font-mono">{formatNumber(minReceived, 6)} {tokenOut}</span>
+            </div>
+          )}
+
+          <div className="p-3 rounded-lg bg-[#1a2035] border border-white/5">
+            <div className="flex items-start gap-2">
+              <Info className="w-4 h-4 text-[#8b92a5] mt-0.5" />
+              <p className="text-xs text-[#8b92a5]">
+                Limit orders record your target on-chain without escrowing tokens. Keep the balance in your wallet until the order fills.
+              </p>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="w-full h-12 font-semibold bg-gradient-to-r from-[#00d4aa] to-[#00a8ff] text-[#0a0e1a] hover:opacity-90 disabled:opacity-50"
+          >
+            {pendingOrderId === "new" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {!account
+              ? "Connect Wallet"
+              : !pool
+              ? "No Constant Product Pool"
+              : "Place Limit Order"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {/* Open orders */}
+      {account && (
+        <Card className="glass-card border-white/5">
+          <CardContent className="p-4 space-y-3">
+            <div className="text-sm font-semibold text-white">Open Orders</div>
+            {(orders ?? []).length === 0 && (
+              <div className="text-sm text-[#8b92a5]">No limit orders yet</div>
+            )}
+            {(orders ?? []).map((order) => {
+              // Orders on pools missing from the list are still shown, with raw amounts
+              const orderPool = pools.find((p) => p.id === order.poolId);
+              const orderTokenIn = orderPool ? (order.isAToB ? orderPool.tokenA : orderPool.tokenB) : null;
+              const orderTokenOut = orderPool ? (order.isAToB ? orderPool.tokenB : orderPool.tokenA) : null;
+              const currentPrice = orderPool
+                ? calculateLimitPrice(
+                    order.amountIn,
+                    order.isAToB ? orderPool.reserveA : orderPool.reserveB,
+                    order.isAToB ? orderPool.reserveB : orderPool.reserveA,
+                    orderPool.feeTier
+                  )
+                : null;
+              const isExpired = order.deadline > 0 && dataUpdatedAt > order.deadline;
+              const isFillable = order.isActive && !isExpired && currentPrice !== null && currentPrice >= order.minPrice;
+
+              const status = order.closedBy === "cancelled"
+                ? { label: "Cancelled", className: "bg-[#ff4757]/10 text-[#ff4757]" }
+                : order.closedBy === "executed"
+                ? { label: "Filled", className: "bg-[#00d4aa]/10 text-[#00d4aa]" }
+                : !order.isActive
+                ? { label: "Closed", className: "bg-white/5 text-[#8b92a5]" }
+                : isExpired
+                ? { label: "Expired", className: "bg-[#f59e0b]/10 text-[#f59e0b]" }
+                : isFillable
+                ? { label: "Price reached", className: "bg-[#00d4aa]/10 text-[#00d4aa]" }
+                : { label: "Open", className: "bg-[#00a8ff]/10 text-[#00a8ff]" };
+
+              return (
+                <div key={order.id} className="p-3 rounded-lg bg-[#0a0e1a] border border-white/5 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-white font-mono">
+                      {orderTokenIn && orderTokenOut
+                        ? `${formatTokenAmount(order.amountIn, DEMO_TOKENS[orderTokenIn].decimals, 6)} ${orderTokenIn} → ${orderTokenOut}`
+                        : `${order.amountIn.toLocaleString()} ${order.isAToB ? "A → B" : "B → A"}`}
+                    </span>
+                    <Badge className={status.className}>{status.label}</Badge>
+                  </div>
+                  {orderTokenIn && orderTokenOut && currentPrice !== null ? (
+                    <>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-[#8b92a5]">Target</span>
+                        <span className="text-white font-mono">
+                          {formatNumber(fromLimitPrice(order.minPrice, orderTokenIn, orderTokenOut), 6)} {orderTokenOut}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-[#8b92a5]">Current</span>
+                        <span className="text-white font-mono">
+                          {formatNumber(fromLimitPrice(currentPrice, orderTokenIn, orderTokenOut), 6)} {orderTokenOut}
+                        </span>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-[#8b92a5]">Pool</span>
+                        <span className="text-white font-mono">
+                          {order.poolId.slice(0, 6)}...{order.poolId.slice(-4)} (not loaded)
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between text-xs">
+                        <span className="text-[#8b92a5]">Target (raw × 10000)</span>
+                        <span className="text-white font-mono">{order.minPrice.toLocaleString()}</span>
+                      </div>
+                    </>
+                  )}
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="text-[#8b92a5]">Expires</span>
+                    <span className="text-white">{new Date(order.deadline).toLocaleString()}</span>
+                  </div>
+                  {order.isActive && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancel(order.id)}
+                      disabled={isPending}
+                      className="w-full border-[#ff4757]/30 text-[#ff4757] hover:bg-[#ff4757]/10"
+                    >
+                      {pendingOrderId === order.id ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <X className="w-4 h-4 mr-2" />
+                      )}
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
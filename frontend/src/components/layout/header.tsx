@@ -9,6 +9,7 @@ import {
   LayoutDashboard, 
   Wallet,
   Coins,
+  ShieldCheck,
   Menu,
   X
 } from "lucide-react";
@@ -21,6 +22,7 @@ const navLinks = [
   { href: "/pools", label: "Pools", icon: Droplets },
   { href: "/positions", label: "Positions", icon: Wallet },
   { href: "/faucet", label: "Faucet", icon: Coins },
+  { href: "/admin", label: "Admin", icon: ShieldCheck },
 ];
 
 export function Header() {
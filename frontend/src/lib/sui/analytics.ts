@@ -0,0 +1,72 @@
+import type { AmmEventOf } from "./events";
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Swap totals for one pool over one window, in raw token units.
+ * Volume and fees are counted in the input token, as SwapExecuted reports them.
+ */
+export interface PoolVolume {
+  /** Sum of amount_in for A -> B swaps */
+  volumeA: bigint;
+  /** Sum of amount_in for B -> A swaps */
+  volumeB: bigint;
+  feesA: bigint;
+  feesB: bigint;
+  swapCount: number;
+}
+
+/**
+ * Rolling 24h and 7d swap totals for a pool
+ */
+export interface PoolAnalytics {
+  poolId: string;
+  day: PoolVolume;
+  week: PoolVolume;
+}
+
+function emptyVolume(): PoolVolume {
+  return { volumeA: 0n, volumeB: 0n, feesA: 0n, feesB: 0n, swapCount: 0 };
+}
+
+function addSwap(volume: PoolVolume, swap: AmmEventOf<"SwapExecuted">) {
+  if (swap.isAToB) {
+    volume.volumeA += swap.amountIn;
+    volume.feesA += swap.feeAmount;
+  } else {
+    volume.volumeB += swap.amountIn;
+    volume.feesB += swap.feeAmount;
+  }
+  volume.swapCount += 1;
+}
+
+/**
+ * Sum SwapExecuted events per pool into 24h and 7d windows ending at `nowMs`.
+ * Events without a timestamp are counted as happening now. Every event passed in is
+ * trusted, so drop ones not emitted by a pool swap (isPoolEmittedSwap) first.
+ */
+export function aggregateSwapStats(
+  swaps: AmmEventOf<"SwapExecuted">[],
+  nowMs: number = Date.now()
+): Map<string, PoolAnalytics> {
+  const stats = new Map<string, PoolAnalytics>();
+
+  for (const swap of swaps) {
+    const age = nowMs - (swap.timestampMs ?? nowMs);
+    if (age > WEEK_MS) continue;
+
+    let pool = stats.get(swap.poolId);
+    if (!pool) {
+      pool = { poolId: swap.poolId, day: emptyVolume(), week: emptyVolume() };
+      stats.set(swap.poolId, pool);
+    }
+
+    addSwap(pool.week, swap);
+    if (age <= DAY_MS) {
+      addSwap(pool.day, swap);
+    }
+  }
+
+  return stats;
+}
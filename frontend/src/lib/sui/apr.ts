@@ -0,0 +1,67 @@
+import { DAY_MS, WEEK_MS, type PoolAnalytics, type PoolVolume } from "./analytics";
+import { getPairUsdValue, type TokenPrices } from "./pricing";
+import type { PoolSummary } from "./client";
+
+const YEAR_MS = 365 * DAY_MS;
+
+/** Share of every swap fee kept by the protocol (constants::protocol_fee_percentage, in bps) */
+export const PROTOCOL_FEE_BPS = 1000n;
+
+/**
+ * Annualized LP fee yield for a pool, as percentages
+ */
+export interface PoolApr {
+  apr24h: number;
+  apr7d: number;
+}
+
+/**
+ * The part of a swap fee that stays in the pool for LPs (fee minus the protocol cut)
+ */
+export function lpFeeShare(feeAmount: bigint): bigint {
+  return feeAmount - (feeAmount * PROTOCOL_FEE_BPS) / 10000n;
+}
+
+/**
+ * Annualized APR (%) from the USD fees one LP token earned over a window
+ * and the USD value of one LP token
+ */
+export function annualizeFeeYield(feesPerLpUsd: number, lpTokenUsd: number, windowMs: number): number {
+  if (lpTokenUsd <= 0 || windowMs <= 0) return 0;
+  return (feesPerLpUsd / lpTokenUsd) * (YEAR_MS / windowMs) * 100;
+}
+
+/**
+ * LP fee APR for one window, rebuilt from SwapExecuted fee amounts
+ */
+function windowApr(
+  pool: Pick<PoolSummary, "tokenA" | "tokenB" | "reserveA" | "reserveB" | "totalSupply">,
+  volume: PoolVolume,
+  prices: TokenPrices,
+  windowMs: number
+): number {
+  if (pool.totalSupply === 0n) return 0;
+
+  const supply = Number(pool.totalSupply);
+  const lpFeesUsd = getPairUsdValue(prices, pool.tokenA, lpFeeShare(volume.feesA), pool.tokenB, lpFeeShare(volume.feesB));
+  const tvlUsd = getPairUsdValue(prices, pool.tokenA, pool.reserveA, pool.tokenB, pool.reserveB);
+
+  return annualizeFeeYield(lpFeesUsd / supply, tvlUsd / supply, windowMs);
+}
+
+/**
+ * 24h and 7d annualized fee APR for a pool.
+ * Pools with no swaps in a window earn 0% for it.
+ */
+export function calculatePoolApr(
+  pool: Pick<PoolSummary, "tokenA" | "tokenB" | "reserveA" | "reserveB" | "totalSupply">,
+  stats: PoolAnalytics | undefined,
+  prices: TokenPrices
+): PoolApr {
+  if (!stats) return { apr24h: 0, apr7d: 0 };
+
+  return {
+    apr24h: windowApr(pool, stats.day, prices, DAY_MS),
+    apr7d: windowApr(pool, stats.week, prices, WEEK_MS),
+  };
+}
@@ -0,0 +1,2062 @@
+import { bcs } from "@mysten/sui/bcs";
+import type { EventId, SuiClient, SuiEvent, SuiObjectDataOptions, SuiObjectResponse } from "@mysten/sui/client";
+import { Transaction, type TransactionArgument, type TransactionObjectArgument } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  AmmDeployment,
+  DEFAULT_DEPLOYMENT,
+  CLOCK_ID,
+  MODULES,
+  DEMO_TOKENS,
+  TokenSymbol,
+} from "./constants";
+import { buildClaimFeesTx, calculateSwapOutput, calculatePriceImpact, type FeeClaim } from "./transactions";
+import {
+  AmplificationRamp,
+  calculateStableSwapOutput,
+  calculateStablePriceImpact,
+  getCurrentAmplification,
+} from "./stable-swap";
+import type { SplitRoute, SwapRoute } from "./router";
+import { decodeAmmEvents, filterEvents, isVerifiedTransfer, type AmmEvent, type AmmEventName, type AmmEventOf } from "./events";
+import { fetchAllCoins, mergeCoinsFor, splitCoinsFor, type CoinObject } from "./coins";
+
+/** Page size used when following event cursors */
+const EVENT_PAGE_SIZE = 50;
+
+/** Most object IDs a single multiGetObjects call accepts */
+const MULTI_GET_BATCH_SIZE = 50;
+
+/**
+ * Events of one kind read so far, oldest first, and the cursor to resume from
+ */
+interface EventHistoryCache {
+  events: AmmEvent[];
+  cursor: EventId | null;
+  /** Page walk in progress, shared by concurrent callers */
+  loading: Promise<void> | null;
+}
+
+export type TokenBalances = Record<TokenSymbol, { balance: bigint; coins: CoinObject[] }>;
+
+/**
+ * On-chain state of a LiquidityPool
+ */
+export interface PoolState {
+  id: string;
+  type: string;
+  coinAType: string;
+  coinBType: string;
+  reserveA: bigint;
+  reserveB: bigint;
+  feeTier: number;
+  totalSupply: bigint;
+  isPaused: boolean;
+  feeGrowthGlobalA: bigint;
+  feeGrowthGlobalB: bigint;
+  /** Curve parameters, set only for StableSwapPool objects */
+  stable?: StablePoolParams;
+}
+
+/**
+ * Amplification and invariant state of a StableSwapPool
+ */
+export interface StablePoolParams extends AmplificationRamp {
+  /** Cached invariant D (scaled by 1e18) */
+  dLast: bigint;
+}
+
+/**
+ * A StableSwapPool's state
+ */
+export type StablePoolState = PoolState & { stable: StablePoolParams };
+
+/**
+ * A pool whose both sides are known demo tokens
+ */
+export interface PoolSummary extends PoolState {
+  tokenA: TokenSymbol;
+  tokenB: TokenSymbol;
+}
+
+/**
+ * An LPPositionNFT owned by an account
+ */
+export interface LPPosition {
+  id: string;
+  poolId: string;
+  lpTokens: bigint;
+  initialAmountA: bigint;
+  initialAmountB: bigint;
+  /** Claimable fees already credited to the position */
+  accumulatedFeesA: bigint;
+  accumulatedFeesB: bigint;
+  /** Pool fee_growth_global values when the position was last updated (scaled by 1e18) */
+  feeGrowthALast: bigint;
+  feeGrowthBLast: bigint;
+  createdAt: number;
+  lastUpdated: number;
+}
+
+/**
+ * Compounds and transfers of one position, newest first
+ */
+export interface PositionHistory {
+  compounds: AmmEventOf<"FeesCompounded">[];
+  transfers: AmmEventOf<"PositionTransferred">[];
+}
+
+export interface PoolFactoryState {
+  id: string;
+  totalPools: number;
+  creationPaused: boolean;
+  protocolFeeRecipient: string;
+}
+
+/**
+ * A user's swap protection preferences, as stored on UserSlippageSettings
+ */
+export interface SwapSettings {
+  slippageBps: number;
+  /** How long a signed swap stays valid, in ms */
+  deadlineMs: number;
+  usePriceImpactProtection: boolean;
+  maxPriceImpactBps: number;
+}
+
+/**
+ * A user's UserSlippageSettings object
+ */
+export interface UserSlippageSettingsState extends SwapSettings {
+  id: string;
+  user: string;
+}
+
+/**
+ * A PriceLimitOrder owned by an account
+ */
+export interface PriceLimitOrderState {
+  id: string;
+  poolId: string;
+  creator: string;
+  amountIn: bigint;
+  /** Raw output per raw input, times 10000 */
+  minPrice: bigint;
+  isAToB: boolean;
+  /** Expiry in ms */
+  deadline: number;
+  /** False once cancelled or executed */
+  isActive: boolean;
+  /** How an inactive order was closed, read from the transaction that last touched it */
+  closedBy: LimitOrderCloseReason | null;
+}
+
+/**
+ * Entry function that closed a PriceLimitOrder. slippage_protection emits no events for
+ * either, so "unknown" means the order's last transaction called neither.
+ */
+export type LimitOrderCloseReason = "cancelled" | "executed" | "unknown";
+
+/**
+ * On-chain state of a fee_distributor::PoolFeeAccumulator
+ */
+export interface PoolFeeAccumulatorState {
+  id: string;
+  poolId: string;
+  coinAType: string;
+  coinBType: string;
+  /** Fees held by the accumulator, waiting to be withdrawn */
+  accumulatedFeesA: bigint;
+  accumulatedFeesB: bigint;
+  /** Fee growth per LP token (scaled by 1e18) */
+  feeGrowthGlobalA: bigint;
+  feeGrowthGlobalB: bigint;
+  /** Fees withdrawn over the accumulator's lifetime */
+  totalDistributedA: bigint;
+  totalDistributedB: bigint;
+  /** Last update in ms */
+  lastUpdate: number;
+}
+
+/**
+ * Protocol fees a pool has accrued and not yet collected
+ */
+export interface ProtocolFees {
+  feesA: bigint;
+  feesB: bigint;
+}
+
+/**
+ * On-chain state of the shared FeeDistributor
+ */
+export interface FeeDistributorState {
+  id: string;
+  protocolFeeRecipient: string;
+  autoCompoundDefault: boolean;
+  /** Smallest fee amount a position may claim */
+  minClaimAmount: bigint;
+}
+
+/**
+ * The parts of a pool needed to quote a swap
+ */
+export type QuotablePool = Pick<PoolSummary, "tokenA" | "reserveA" | "reserveB" | "feeTier">;
+
+/**
+ * The parts of a stable pool needed to quote a swap
+ */
+export type QuotableStablePool = QuotablePool & AmplificationRamp;
+
+export interface SwapQuote {
+  amountOut: bigint;
+  /** Price impact in basis points */
+  priceImpactBps: number;
+  isAToB: boolean;
+}
+
+/**
+ * On-chain checks run at the start of a swap PTB, before any swap call
+ */
+export interface SwapProtection {
+  /** Absolute deadline in ms; the transaction aborts once the clock passes it */
+  deadlineMs: number;
+  /**
+   * When set, each leg's first constant product hop is checked with
+   * validate_swap_with_user_settings and its price impact asserted against the user's limit
+   */
+  userSettings?: Pick<UserSlippageSettingsState, "id" | "usePriceImpactProtection" | "maxPriceImpactBps">;
+}
+
+export interface BuildSwapParams {
+  pool: Pick<PoolSummary, "id" | "tokenA" | "tokenB" | "stable">;
+  tokenIn: TokenSymbol;
+  coins: CoinObject[];
+  amountIn: bigint;
+  minAmountOut: bigint;
+  recipient: string;
+  protection?: SwapProtection;
+}
+
+export interface BuildRouteSwapParams {
+  route: SwapRoute;
+  coins: CoinObject[];
+  minAmountOut: bigint;
+  recipient: string;
+  protection?: SwapProtection;
+}
+
+export interface BuildSplitSwapParams {
+  split: SplitRoute;
+  coins: CoinObject[];
+  /** Minimum combined output across every leg */
+  minAmountOut: bigint;
+  recipient: string;
+  protection?: SwapProtection;
+}
+
+export interface BuildExactOutputSwapParams {
+  route: SwapRoute;
+  coins: CoinObject[];
+  /** Exact amount to receive */
+  amountOut: bigint;
+  /** Most the user is willing to spend, including slippage */
+  maxAmountIn: bigint;
+  recipient: string;
+  protection?: SwapProtection;
+}
+
+export interface BuildAddLiquidityParams {
+  pool: Pick<PoolSummary, "id" | "tokenA" | "tokenB" | "stable">;
+  coinsA: CoinObject[];
+  coinsB: CoinObject[];
+  amountA: bigint;
+  amountB: bigint;
+  minLpTokens: bigint;
+  recipient: string;
+}
+
+export type BuildCreateStablePoolParams = BuildCreatePoolParams & {
+  amplification: number;
+};
+
+export type BuildIncreaseLiquidityParams = Omit<BuildAddLiquidityParams, "recipient"> & {
+  positionId: string;
+};
+
+export interface BuildCreatePoolParams {
+  tokenA: TokenSymbol;
+  tokenB: TokenSymbol;
+  coinsA: CoinObject[];
+  coinsB: CoinObject[];
+  amountA: bigint;
+  amountB: bigint;
+  feeTier: number;
+  recipient: string;
+}
+
+export interface BuildRemoveLiquidityParams {
+  pool: Pick<PoolState, "id" | "coinAType" | "coinBType" | "stable">;
+  positionId: string;
+  lpTokens: bigint;
+  minAmountA: bigint;
+  minAmountB: bigint;
+  recipient: string;
+}
+
+export type BuildRemoveAllLiquidityParams = Omit<BuildRemoveLiquidityParams, "lpTokens">;
+
+/**
+ * A position whose fees are compounded
+ */
+export interface FeePositionRef {
+  coinAType: string;
+  coinBType: string;
+  poolId: string;
+  positionId: string;
+}
+
+export interface BuildAutoCompoundParams {
+  positions: FeePositionRef[];
+}
+
+export interface BuildClaimFeesParams {
+  claims: FeeClaim[];
+  recipient: string;
+}
+
+export interface BuildTransferPositionParams {
+  positionId: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * A pool targeted by an admin transaction
+ */
+export interface AdminPoolRef {
+  coinAType: string;
+  coinBType: string;
+  poolId: string;
+}
+
+/**
+ * A PoolFeeAccumulator targeted by an admin transaction
+ */
+export interface AccumulatorRef {
+  coinAType: string;
+  coinBType: string;
+  accumulatorId: string;
+}
+
+export interface BuildSetPoolPausedParams {
+  adminCapId: string;
+  pool: AdminPoolRef;
+  paused: boolean;
+}
+
+export interface BuildSetCreationPausedParams {
+  adminCapId: string;
+  paused: boolean;
+}
+
+export interface BuildSetFeeRecipientParams {
+  adminCapId: string;
+  recipient: string;
+}
+
+export interface BuildCollectProtocolFeesParams {
+  adminCapId: string;
+  pools: AdminPoolRef[];
+  recipient: string;
+}
+
+export interface BuildSetMinClaimAmountParams {
+  adminCapId: string;
+  amount: bigint;
+}
+
+export interface BuildSetAutoCompoundDefaultParams {
+  adminCapId: string;
+  enabled: boolean;
+}
+
+export interface BuildWithdrawAccumulatedFeesParams {
+  adminCapId: string;
+  accumulators: AccumulatorRef[];
+  recipient: string;
+}
+
+export interface BuildStopRampParams {
+  adminCapId: string;
+  pool: AdminPoolRef;
+}
+
+export type BuildRampAmplificationParams = BuildStopRampParams & {
+  targetAmplification: number;
+  /** Ramp length in ms, starting when the transaction executes */
+  durationMs: number;
+};
+
+export interface BuildCreateUserSettingsParams {
+  settings: SwapSettings;
+  owner: string;
+}
+
+export interface BuildUpdateUserSettingsParams {
+  settingsId: string;
+  settings: SwapSettings;
+}
+
+export interface BuildCreateLimitOrderParams {
+  pool: AdminPoolRef;
+  amountIn: bigint;
+  /** Raw output per raw input, times 10000 (see toLimitPrice) */
+  minPrice: bigint;
+  isAToB: boolean;
+  /** How long the order stays open, in ms */
+  durationMs: number;
+  owner: string;
+}
+
+export interface BuildCancelLimitOrderParams {
+  orderId: string;
+}
+
+/**
+ * Map a fully-qualified coin type to its demo token symbol
+ */
+export function getTokenSymbolFromType(type: string): TokenSymbol | null {
+  for (const [symbol, token] of Object.entries(DEMO_TOKENS)) {
+    // Match on "module::STRUCT" so pools from other deployments still resolve
+    const suffix = token.type.split("::").slice(1).join("::");
+    if (type.endsWith(suffix)) {
+      return symbol as TokenSymbol;
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a LiquidityPool or StableSwapPool object response into pool state,
+ * or null if the object is not a pool of the given package
+ */
+export function parsePoolObject(object: SuiObjectResponse, packageId: string): PoolState | null {
+  if (object.data?.content?.dataType !== "moveObject") {
+    return null;
+  }
+
+  const type = object.data.content.type;
+  const packagePrefix = `${normalizeSuiAddress(packageId)}::`;
+  if (
+    !type.startsWith(`${packagePrefix}${MODULES.POOL_FACTORY}::LiquidityPool<`) &&
+    !type.startsWith(`${packagePrefix}${MODULES.STABLE_SWAP_POOL}::StableSwapPool<`)
+  ) {
+    return null;
+  }
+
+  const fields = object.data.content.fields as Record<string, unknown>;
+
+  // e.g., "0x...::pool_factory::LiquidityPool<0x...::demo_usdc::DEMO_USDC, 0x...::demo_eth::DEMO_ETH>"
+  const typeMatch = type.match(/<(.+),\s*(.+)>/);
+
+  const stable: StablePoolParams | undefined = type.startsWith(`${packagePrefix}${MODULES.STABLE_SWAP_POOL}::StableSwapPool<`)
+    ? {
+        amplification: Number(fields.amplification as string || "0"),
+        futureAmplification: Number(fields.future_amplification as string || "0"),
+        rampStartTime: Number(fields.ramp_start_time as string || "0"),
+        rampEndTime: Number(fields.ramp_end_time as string || "0"),
+        dLast: BigInt(fields.d_last as string || "0"),
+      }
+    : undefined;
+
+  return {
+    id: object.data.objectId,
+    type,
+    coinAType: typeMatch?.[1] || "",
+    coinBType: typeMatch?.[2] || "",
+    reserveA: BigInt((fields.reserve_a as { fields?: { value?: string } })?.fields?.value || "0"),
+    reserveB: BigInt((fields.reserve_b as { fields?: { value?: string } })?.fields?.value || "0"),
+    feeTier: Number(fields.fee_tier as string || "30"),
+    totalSupply: BigInt(fields.total_supply as string || "0"),
+    isPaused: fields.is_paused as boolean,
+    feeGrowthGlobalA: BigInt(fields.fee_growth_global_a as string || "0"),
+    feeGrowthGlobalB: BigInt(fields.fee_growth_global_b as string || "0"),
+    ...(stable && { stable }),
+  };
+}
+
+/**
+ * Parse a PoolFeeAccumulator object, or null if the object is not one
+ */
+export function parseFeeAccumulatorObject(object: SuiObjectResponse): PoolFeeAccumulatorState | null {
+  if (object.data?.content?.dataType !== "moveObject") {
+    return null;
+  }
+
+  const type = object.data.content.type;
+  if (!type.includes(`::${MODULES.FEE_DISTRIBUTOR}::PoolFeeAccumulator<`)) {
+    return null;
+  }
+
+  const fields = object.data.content.fields as Record<string, unknown>;
+  const typeMatch = type.match(/<(.+),\s*(.+)>/);
+
+  return {
+    id: object.data.objectId,
+    poolId: fields.pool_id as string,
+    coinAType: typeMatch?.[1] || "",
+    coinBType: typeMatch?.[2] || "",
+    accumulatedFeesA: BigInt((fields.accumulated_fees_a as { fields?: { value?: string } })?.fields?.value || "0"),
+    accumulatedFeesB: BigInt((fields.accumulated_fees_b as { fields?: { value?: string } })?.fields?.value || "0"),
+    feeGrowthGlobalA: BigInt(fields.fee_growth_global_a as string || "0"),
+    feeGrowthGlobalB: BigInt(fields.fee_growth_global_b as string || "0"),
+    totalDistributedA: BigInt(fields.total_fees_distributed_a as string || "0"),
+    totalDistributedB: BigInt(fields.total_fees_distributed_b as string || "0"),
+    lastUpdate: Number(fields.last_update as string || "0"),
+  };
+}
+
+/**
+ * Attach demo token symbols to a pool, or null if either side is unknown
+ */
+export function toPoolSummary(pool: PoolState): PoolSummary | null {
+  const tokenA = getTokenSymbolFromType(pool.coinAType);
+  const tokenB = getTokenSymbolFromType(pool.coinBType);
+  if (!tokenA || !tokenB) return null;
+  return { ...pool, tokenA, tokenB };
+}
+
+/**
+ * Framework-agnostic client for reading AMM state and building transactions.
+ * Used directly by scripts and bots, and wrapped by the React hooks in queries.ts.
+ */
+export class AmmClient {
+  /** Pool IDs seen so far, in PoolCreated order */
+  private knownPoolIds = new Set<string>();
+  /** Cursor just past the last PoolCreated event read */
+  private poolEventCursor: EventId | null = null;
+  /** StableSwapPool IDs seen so far, in creation order */
+  private knownStablePoolIds = new Set<string>();
+  /** Cursor just past the last create_stable_pool transaction read */
+  private stablePoolTxCursor: string | null = null;
+  /** PoolFeeAccumulator IDs seen so far, in creation order */
+  private knownAccumulatorIds = new Set<string>();
+  /** Cursor just past the last create_accumulator transaction read */
+  private accumulatorTxCursor: string | null = null;
+  /** Event histories read by getEventHistory, per event kind */
+  private eventHistories = new Map<AmmEventName, EventHistoryCache>();
+  /** Malformed events dropped while decoding query results, across all calls */
+  skippedEventCount = 0;
+
+  constructor(
+    readonly client: SuiClient,
+    readonly deployment: AmmDeployment = DEFAULT_DEPLOYMENT
+  ) {}
+
+  // ============ Reads ============
+
+  /**
+   * Fetch a single liquidity pool
+   */
+  async getPool(poolId: string): Promise<PoolState | null> {
+    const object = await this.client.getObject({
+      id: poolId,
+      options: { showContent: true, showType: true },
+    });
+    return parsePoolObject(object, this.deployment.packageId);
+  }
+
+  /**
+   * Fetch several pools in batched multiGetObjects calls, skipping any that fail to parse
+   */
+  async getPools(poolIds: string[]): Promise<PoolState[]> {
+    const pools: PoolState[] = [];
+
+    for (let i = 0; i < poolIds.length; i += MULTI_GET_BATCH_SIZE) {
+      const objects = await this.client.multiGetObjects({
+        ids: poolIds.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showContent: true, showType: true },
+      });
+
+      for (const object of objects) {
+        const state = parsePoolObject(object, this.deployment.packageId);
+        if (state) {
+          pools.push(state);
+        }
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * IDs of every pool announced by PoolCreated events, oldest first.
+   * Follows event cursors to the end; later calls resume from the last cursor
+   * and only page through PoolCreated events emitted since.
+   */
+  async discoverPoolIds(): Promise<string[]> {
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        query: {
+          MoveEventType: `${this.deployment.packageId}::events::PoolCreated`,
+        },
+        cursor: this.poolEventCursor,
+        limit: EVENT_PAGE_SIZE,
+        order: "ascending",
+      });
+
+      for (const { poolId } of filterEvents(this.decodeEvents(page.data), "PoolCreated")) {
+        this.knownPoolIds.add(poolId);
+      }
+
+      if (page.nextCursor) {
+        this.poolEventCursor = page.nextCursor;
+      }
+      hasNextPage = page.hasNextPage;
+    }
+
+    return [...this.knownPoolIds];
+  }
+
+  /**
+   * IDs of every StableSwapPool, oldest first.
+   * Stable pools emit no PoolCreated event, so they are found through the
+   * create_stable_pool transactions that shared them; later calls resume from the last cursor.
+   */
+  async discoverStablePoolIds(): Promise<string[]> {
+    this.stablePoolTxCursor = await this.scanCreatedObjects(
+      MODULES.STABLE_SWAP_POOL,
+      "create_stable_pool",
+      "StableSwapPool",
+      this.knownStablePoolIds,
+      this.stablePoolTxCursor
+    );
+
+    return [...this.knownStablePoolIds];
+  }
+
+  /**
+   * IDs of every PoolFeeAccumulator, oldest first.
+   * Accumulators are created inside PTBs without an event, so they are found through
+   * the create_accumulator transactions; later calls resume from the last cursor.
+   */
+  async discoverFeeAccumulatorIds(): Promise<string[]> {
+    this.accumulatorTxCursor = await this.scanCreatedObjects(
+      MODULES.FEE_DISTRIBUTOR,
+      "create_accumulator",
+      "PoolFeeAccumulator",
+      this.knownAccumulatorIds,
+      this.accumulatorTxCursor
+    );
+
+    return [...this.knownAccumulatorIds];
+  }
+
+  /**
+   * Page through every transaction calling `module::fn` after `cursor`, adding the
+   * `module::struct` objects it created to `known`. Returns the cursor to resume from.
+   */
+  private async scanCreatedObjects(
+    module: string,
+    fn: string,
+    struct: string,
+    known: Set<string>,
+    cursor: string | null
+  ): Promise<string | null> {
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryTransactionBlocks({
+        filter: {
+          MoveFunction: {
+            package: this.deployment.packageId,
+            module,
+            function: fn,
+          },
+        },
+        options: { showObjectChanges: true },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: "ascending",
+      });
+
+      for (const block of page.data) {
+        for (const change of block.objectChanges ?? []) {
+          if (change.type === "created" && change.objectType.includes(`::${module}::${struct}<`)) {
+            known.add(change.objectId);
+          }
+        }
+      }
+
+      if (page.nextCursor) {
+        cursor = page.nextCursor;
+      }
+      hasNextPage = page.hasNextPage;
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Fetch every PoolFeeAccumulator, oldest first
+   */
+  async getFeeAccumulators(): Promise<PoolFeeAccumulatorState[]> {
+    const ids = await this.discoverFeeAccumulatorIds();
+    const accumulators: PoolFeeAccumulatorState[] = [];
+
+    for (let i = 0; i < ids.length; i += MULTI_GET_BATCH_SIZE) {
+      const objects = await this.client.multiGetObjects({
+        ids: ids.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showContent: true, showType: true },
+      });
+
+      for (const object of objects) {
+        const state = parseFeeAccumulatorObject(object);
+        if (state) {
+          accumulators.push(state);
+        }
+      }
+    }
+
+    return accumulators;
+  }
+
+  /**
+   * Fetch a single StableSwapPool, or null if the object is not one
+   */
+  async getStablePool(poolId: string): Promise<StablePoolState | null> {
+    const pool = await this.getPool(poolId);
+    return pool?.stable ? { ...pool, stable: pool.stable } : null;
+  }
+
+  /**
+   * Fetch all constant-product and stable pools, newest first
+   */
+  async listPools(): Promise<PoolSummary[]> {
+    const [poolIds, stablePoolIds] = await Promise.all([this.discoverPoolIds(), this.discoverStablePoolIds()]);
+    const pools = await this.getPools([...poolIds, ...stablePoolIds]);
+
+    return pools
+      .map(toPoolSummary)
+      .filter((pool): pool is PoolSummary => pool !== null)
+      .reverse();
+  }
+
+  /**
+   * Fetch the shared PoolFactory object
+   */
+  async getPoolFactory(): Promise<PoolFactoryState | null> {
+    const object = await this.client.getObject({
+      id: this.deployment.poolFactoryId,
+      options: { showContent: true },
+    });
+
+    if (object.data?.content?.dataType !== "moveObject") {
+      return null;
+    }
+
+    const fields = object.data.content.fields as Record<string, unknown>;
+
+    return {
+      id: this.deployment.poolFactoryId,
+      totalPools: Number(fields.total_pools as string || "0"),
+      creationPaused: fields.creation_paused as boolean,
+      protocolFeeRecipient: fields.protocol_fee_recipient as string,
+    };
+  }
+
+  /**
+   * Get the FeeDistributor state
+   */
+  async getFeeDistributor(): Promise<FeeDistributorState | null> {
+    const object = await this.client.getObject({
+      id: this.deployment.feeDistributorId,
+      options: { showContent: true },
+    });
+
+    if (object.data?.content?.dataType !== "moveObject") {
+      return null;
+    }
+
+    const fields = object.data.content.fields as Record<string, unknown>;
+
+    return {
+      id: this.deployment.feeDistributorId,
+      protocolFeeRecipient: fields.protocol_fee_recipient as string,
+      autoCompoundDefault: fields.auto_compound_default as boolean,
+      minClaimAmount: BigInt(fields.min_claim_amount as string || "0"),
+    };
+  }
+
+  /**
+   * Fetch the LP Position NFTs owned by an address
+   */
+  async getPositions(owner: string): Promise<LPPosition[]> {
+    const objects = await this.getAllOwnedObjects(
+      owner,
+      `${this.deployment.packageId}::lp_position_nft::LPPositionNFT`,
+      { showContent: true, showType: true }
+    );
+
+    const positions: LPPosition[] = [];
+
+    for (const obj of objects) {
+      const content = obj.data?.content;
+      if (content?.dataType !== "moveObject") continue;
+
+      const fields = content.fields as Record<string, unknown>;
+
+      positions.push({
+        id: obj.data?.objectId || "",
+        poolId: fields.pool_id as string,
+        lpTokens: BigInt(fields.lp_tokens as string),
+        initialAmountA: BigInt(fields.initial_amount_a as string),
+        initialAmountB: BigInt(fields.initial_amount_b as string),
+        accumulatedFeesA: BigInt(fields.accumulated_fees_a as string || "0"),
+        accumulatedFeesB: BigInt(fields.accumulated_fees_b as string || "0"),
+        feeGrowthALast: BigInt(fields.fee_growth_a_last as string || "0"),
+        feeGrowthBLast: BigInt(fields.fee_growth_b_last as string || "0"),
+        createdAt: Number(fields.created_at as string),
+        lastUpdated: Number(fields.last_updated as string || fields.created_at as string),
+      });
+    }
+
+    return positions;
+  }
+
+  /**
+   * Read a position's claimable fees on-chain by dev-inspecting
+   * fee_distributor::calculate_claimable_fees. Nothing is executed.
+   * Only constant product pools are supported; the function takes a LiquidityPool.
+   */
+  async getClaimableFees(
+    sender: string,
+    positionId: string,
+    pool: Pick<PoolState, "id" | "coinAType" | "coinBType" | "stable">
+  ): Promise<{ feesA: bigint; feesB: bigint }> {
+    if (pool.stable) {
+      throw new Error("calculate_claimable_fees does not support stable pools");
+    }
+
+    const tx = new Transaction();
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::calculate_claimable_fees`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [tx.object(pool.id), tx.object(positionId)],
+    });
+
+    const result = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
+    const returnValues = result.results?.[0]?.returnValues;
+    if (result.effects.status.status !== "success" || !returnValues || returnValues.length < 2) {
+      throw new Error(result.error || result.effects.status.error || "calculate_claimable_fees returned no values");
+    }
+
+    return {
+      feesA: BigInt(bcs.u64().parse(Uint8Array.from(returnValues[0][0]))),
+      feesB: BigInt(bcs.u64().parse(Uint8Array.from(returnValues[1][0]))),
+    };
+  }
+
+  /**
+   * Read the accrued protocol fees of several pools in one dev-inspected transaction
+   * (pool_factory::get_protocol_fees per pool), keyed by pool ID
+   */
+  async getProtocolFees(
+    sender: string,
+    pools: Pick<PoolState, "id" | "coinAType" | "coinBType">[]
+  ): Promise<Record<string, ProtocolFees>> {
+    if (pools.length === 0) return {};
+
+    const tx = new Transaction();
+    for (const pool of pools) {
+      tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::get_protocol_fees`,
+        typeArguments: [pool.coinAType, pool.coinBType],
+        arguments: [tx.object(pool.id)],
+      });
+    }
+
+    const result = await this.client.devInspectTransactionBlock({ sender, transactionBlock: tx });
+    if (result.effects.status.status !== "success" || !result.results) {
+      throw new Error(result.error || result.effects.status.error || "get_protocol_fees returned no values");
+    }
+
+    const fees: Record<string, ProtocolFees> = {};
+    pools.forEach((pool, i) => {
+      const returnValues = result.results?.[i]?.returnValues;
+      if (!returnValues || returnValues.length < 2) return;
+      fees[pool.id] = {
+        feesA: BigInt(bcs.u64().parse(Uint8Array.from(returnValues[0][0]))),
+        feesB: BigInt(bcs.u64().parse(Uint8Array.from(returnValues[1][0]))),
+      };
+    });
+
+    return fees;
+  }
+
+  /**
+   * Fetch demo token balances and every coin object (all pages) for an address
+   */
+  async getTokenBalances(owner: string): Promise<TokenBalances> {
+    const balances: TokenBalances = {
+      USDC: { balance: 0n, coins: [] },
+      USDT: { balance: 0n, coins: [] },
+      ETH: { balance: 0n, coins: [] },
+      BTC: { balance: 0n, coins: [] },
+      WSUI: { balance: 0n, coins: [] },
+    };
+
+    for (const symbol of Object.keys(DEMO_TOKENS) as TokenSymbol[]) {
+      try {
+        const coins = await fetchAllCoins(this.client, owner, this.coinType(symbol));
+
+        balances[symbol] = {
+          balance: coins.reduce((sum, coin) => sum + coin.balance, 0n),
+          coins,
+        };
+      } catch (error) {
+        console.error(`Error fetching ${symbol} balance:`, error);
+      }
+    }
+
+    return balances;
+  }
+
+  /**
+   * Find demo token treasury caps owned by an address
+   */
+  async getTreasuryCaps(owner: string): Promise<Partial<Record<TokenSymbol, string>>> {
+    const caps: Partial<Record<TokenSymbol, string>> = {};
+
+    for (const symbol of Object.keys(DEMO_TOKENS) as TokenSymbol[]) {
+      try {
+        const objects = await this.client.getOwnedObjects({
+          owner,
+          filter: {
+            StructType: `0x2::coin::TreasuryCap<${this.coinType(symbol)}>`,
+          },
+        });
+
+        if (objects.data.length > 0) {
+          caps[symbol] = objects.data[0].data?.objectId;
+        }
+      } catch (error) {
+        console.error(`Error fetching ${symbol} treasury cap:`, error);
+      }
+    }
+
+    return caps;
+  }
+
+  /**
+   * Find the PoolFactoryAdminCap owned by an address, if any
+   */
+  async getPoolFactoryAdminCap(owner: string): Promise<string | null> {
+    const objects = await this.client.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::PoolFactoryAdminCap`,
+      },
+    });
+
+    return objects.data[0]?.data?.objectId ?? null;
+  }
+
+  /**
+   * Fetch the UserSlippageSettings object owned by an address, or null if none was created
+   */
+  async getUserSlippageSettings(owner: string): Promise<UserSlippageSettingsState | null> {
+    const objects = await this.client.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}::UserSlippageSettings`,
+      },
+      options: { showContent: true },
+    });
+
+    const object = objects.data[0];
+    if (object?.data?.content?.dataType !== "moveObject") {
+      return null;
+    }
+
+    const fields = object.data.content.fields as Record<string, unknown>;
+
+    return {
+      id: object.data.objectId,
+      user: fields.user as string,
+      slippageBps: Number(fields.slippage_tolerance as string || "0"),
+      deadlineMs: Number(fields.deadline as string || "0"),
+      usePriceImpactProtection: fields.use_price_impact_protection as boolean,
+      maxPriceImpactBps: Number(fields.max_price_impact as string || "0"),
+    };
+  }
+
+  /**
+   * Fetch the PriceLimitOrders owned by an address, newest deadline first
+   */
+  async getPriceLimitOrders(owner: string): Promise<PriceLimitOrderState[]> {
+    const objects = await this.getAllOwnedObjects(
+      owner,
+      `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}::PriceLimitOrder`,
+      { showContent: true, showPreviousTransaction: true }
+    );
+
+    const orders: PriceLimitOrderState[] = [];
+    const closingDigests = new Map<string, string>();
+
+    for (const obj of objects) {
+      const content = obj.data?.content;
+      if (content?.dataType !== "moveObject") continue;
+
+      const fields = content.fields as Record<string, unknown>;
+      if (!fields.is_active && obj.data?.previousTransaction) {
+        closingDigests.set(obj.data.objectId, obj.data.previousTransaction);
+      }
+
+      orders.push({
+        id: obj.data?.objectId || "",
+        poolId: fields.pool_id as string,
+        creator: fields.creator as string,
+        amountIn: BigInt(fields.amount_in as string || "0"),
+        minPrice: BigInt(fields.min_price as string || "0"),
+        isAToB: fields.is_a_to_b as boolean,
+        deadline: Number(fields.deadline as string || "0"),
+        isActive: fields.is_active as boolean,
+        closedBy: null,
+      });
+    }
+
+    const reasons = await this.getLimitOrderCloseReasons([...new Set(closingDigests.values())]);
+    for (const order of orders) {
+      const digest = closingDigests.get(order.id);
+      if (digest) {
+        order.closedBy = reasons.get(digest) ?? "unknown";
+      }
+    }
+
+    return orders.sort((a, b) => b.deadline - a.deadline);
+  }
+
+  /**
+   * Classify transactions by which slippage_protection entry function they called
+   * to close a PriceLimitOrder, keyed by digest
+   */
+  private async getLimitOrderCloseReasons(digests: string[]): Promise<Map<string, LimitOrderCloseReason>> {
+    const reasons = new Map<string, LimitOrderCloseReason>();
+
+    for (let i = 0; i < digests.length; i += MULTI_GET_BATCH_SIZE) {
+      const blocks = await this.client.multiGetTransactionBlocks({
+        digests: digests.slice(i, i + MULTI_GET_BATCH_SIZE),
+        options: { showInput: true },
+      });
+
+      for (const block of blocks) {
+        const kind = block.transaction?.data.transaction;
+        if (kind?.kind !== "ProgrammableTransaction") continue;
+
+        let reason: LimitOrderCloseReason = "unknown";
+        for (const command of kind.transactions) {
+          if (!("MoveCall" in command) || command.MoveCall.module !== MODULES.SLIPPAGE_PROTECTION) continue;
+          if (command.MoveCall.function === "cancel_price_limit_order") reason = "cancelled";
+          if (command.MoveCall.function === "mark_order_executed") reason = "executed";
+        }
+        reasons.set(block.digest, reason);
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Find the FeeDistributorAdminCap owned by an address, if any
+   */
+  async getFeeDistributorAdminCap(owner: string): Promise<string | null> {
+    const objects = await this.client.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::FeeDistributorAdminCap`,
+      },
+    });
+
+    return objects.data[0]?.data?.objectId ?? null;
+  }
+
+  /**
+   * Find the StableSwapAdminCap owned by an address, if any
+   */
+  async getStableSwapAdminCap(owner: string): Promise<string | null> {
+    const objects = await this.client.getOwnedObjects({
+      owner,
+      filter: {
+        StructType: `${this.deployment.packageId}::${MODULES.STABLE_SWAP_POOL}::StableSwapAdminCap`,
+      },
+    });
+
+    return objects.data[0]?.data?.objectId ?? null;
+  }
+
+  /**
+   * Fetch and decode the most recent events from the events module
+   */
+  async getRecentEvents(limit: number = 20): Promise<AmmEvent[]> {
+    const events = await this.client.queryEvents({
+      query: {
+        MoveModule: {
+          package: this.deployment.packageId,
+          module: "events",
+        },
+      },
+      limit,
+      order: "descending",
+    });
+
+    return this.decodeEvents(events.data);
+  }
+
+  /**
+   * Fetch every event of one kind emitted at or after `sinceMs`, newest first.
+   * Pages backwards through event cursors until it passes `sinceMs`.
+   */
+  async getEventsSince<N extends AmmEventName>(name: N, sinceMs: number): Promise<AmmEventOf<N>[]> {
+    const events: AmmEventOf<N>[] = [];
+    let cursor: EventId | null = null;
+
+    while (true) {
+      const page = await this.client.queryEvents({
+        query: {
+          MoveEventType: `${this.deployment.packageId}::events::${name}`,
+        },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: "descending",
+      });
+
+      for (const event of filterEvents(this.decodeEvents(page.data), name)) {
+        if (event.timestampMs !== null && event.timestampMs < sinceMs) {
+          return events;
+        }
+        events.push(event);
+      }
+
+      if (!page.hasNextPage || !page.nextCursor) {
+        return events;
+      }
+      cursor = page.nextCursor;
+    }
+  }
+
+  /**
+   * Every event of one kind, newest first.
+   * The first call pages through the whole history; later calls resume from the last
+   * cursor and only read events emitted since.
+   */
+  async getEventHistory<N extends AmmEventName>(name: N): Promise<AmmEventOf<N>[]> {
+    let history = this.eventHistories.get(name);
+    if (!history) {
+      history = { events: [], cursor: null, loading: null };
+      this.eventHistories.set(name, history);
+    }
+
+    if (!history.loading) {
+      const cache = history;
+      cache.loading = this.followEventCursor(name, cache).finally(() => {
+        cache.loading = null;
+      });
+    }
+    await history.loading;
+
+    return filterEvents(history.events, name).reverse();
+  }
+
+  /**
+   * Append every `name` event after the cache's cursor, advancing the cursor as it goes
+   */
+  private async followEventCursor(name: AmmEventName, cache: EventHistoryCache): Promise<void> {
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        query: {
+          MoveEventType: `${this.deployment.packageId}::events::${name}`,
+        },
+        cursor: cache.cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: "ascending",
+      });
+
+      cache.events.push(...this.decodeEvents(page.data));
+
+      if (page.nextCursor) {
+        cache.cursor = page.nextCursor;
+      }
+      hasNextPage = page.hasNextPage;
+    }
+  }
+
+  /**
+   * Compound and transfer events naming one position, newest first.
+   * Reads only the transactions that changed the position object, so the cost follows the
+   * position's own activity rather than the protocol-wide event history. Transfers are kept
+   * only when the same transaction moved the position to the reported recipient.
+   */
+  async getPositionHistory(positionId: string): Promise<PositionHistory> {
+    const history: PositionHistory = { compounds: [], transfers: [] };
+    const eventPrefix = `${normalizeSuiAddress(this.deployment.packageId)}::events::`;
+    let cursor: string | null = null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.queryTransactionBlocks({
+        filter: { ChangedObject: positionId },
+        options: { showEvents: true, showObjectChanges: true },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: "descending",
+      });
+
+      for (const block of page.data) {
+        const raws = (block.events ?? []).filter((raw) => raw.type.startsWith(eventPrefix));
+        for (const event of this.decodeEvents(raws).reverse()) {
+          if (event.name === "FeesCompounded" && event.positionId === positionId) {
+            history.compounds.push(event);
+          } else if (
+            event.name === "PositionTransferred" &&
+            event.positionId === positionId &&
+            isVerifiedTransfer(event, block.objectChanges ?? [])
+          ) {
+            history.transfers.push(event);
+          }
+        }
+      }
+
+      cursor = page.nextCursor ?? null;
+      hasNextPage = page.hasNextPage && cursor !== null;
+    }
+
+    return history;
+  }
+
+  // ============ Quotes ============
+
+  /**
+   * Quote a swap of `amountIn` of `tokenIn` against a pool
+   */
+  quoteSwap(pool: QuotablePool, tokenIn: TokenSymbol, amountIn: bigint): SwapQuote {
+    const isAToB = pool.tokenA === tokenIn;
+    const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+    const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+
+    return {
+      amountOut: calculateSwapOutput(amountIn, reserveIn, reserveOut, pool.feeTier),
+      priceImpactBps: calculatePriceImpact(amountIn, reserveIn, reserveOut, pool.feeTier),
+      isAToB,
+    };
+  }
+
+  /**
+   * Quote a swap against a StableSwapPool, using the amplification the pool applies on-chain
+   */
+  quoteStableSwap(pool: QuotableStablePool, tokenIn: TokenSymbol, amountIn: bigint): SwapQuote {
+    const isAToB = pool.tokenA === tokenIn;
+    const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+    const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+    const amp = getCurrentAmplification(pool);
+
+    return {
+      amountOut: calculateStableSwapOutput(amountIn, reserveIn, reserveOut, amp, pool.feeTier),
+      priceImpactBps: calculateStablePriceImpact(amountIn, reserveIn, reserveOut, amp, pool.feeTier),
+      isAToB,
+    };
+  }
+
+  // ============ Transaction Builders ============
+
+  /**
+   * Build a swap PTB: gather the input coin, swap, and send the output to `recipient`
+   */
+  buildSwap(params: BuildSwapParams): Transaction {
+    const { pool, tokenIn, coins, amountIn, minAmountOut, recipient, protection } = params;
+    const tx = new Transaction();
+
+    if (protection) {
+      this.appendSwapProtection(tx, protection, [{ pool, isAToB: pool.tokenA === tokenIn, amountIn }]);
+    }
+
+    const coinIn = splitCoinsFor(tx, coins, amountIn, tokenIn);
+    const swapFunction = pool.tokenA === tokenIn ? "swap_a_for_b" : "swap_b_for_a";
+
+    const coinOut = tx.moveCall({
+      target: `${this.deployment.packageId}::${this.poolModule(pool)}::${swapFunction}`,
+      typeArguments: [this.coinType(pool.tokenA), this.coinType(pool.tokenB)],
+      arguments: [
+        tx.object(pool.id),
+        coinIn,
+        tx.pure.u64(minAmountOut),
+      ],
+    });
+
+    tx.transferObjects([coinOut], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a multi-hop swap PTB that chains each hop's output coin into the next hop.
+   * Intermediate hops accept any output; `minAmountOut` is enforced on the final hop.
+   */
+  buildRouteSwap(params: BuildRouteSwapParams): Transaction {
+    const { route, coins, minAmountOut, recipient, protection } = params;
+    const tx = new Transaction();
+
+    if (protection) {
+      this.appendSwapProtection(tx, protection, [
+        { pool: route.hops[0].pool, isAToB: route.hops[0].isAToB, amountIn: route.amountIn },
+      ]);
+    }
+
+    const coinIn = splitCoinsFor(tx, coins, route.amountIn, route.tokenIn);
+    const coin = this.appendRouteHops(tx, route, coinIn, minAmountOut);
+
+    tx.transferObjects([coin], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that runs every leg of a split order and checks the combined output.
+   * Legs swap with no per-leg minimum; their outputs are merged and
+   * `slippage_protection::assert_slippage_ok` enforces `minAmountOut` on the total.
+   */
+  buildSplitSwap(params: BuildSplitSwapParams): Transaction {
+    const { split, coins, minAmountOut, recipient, protection } = params;
+
+    if (split.legs.length === 1) {
+      return this.buildRouteSwap({ route: split.legs[0], coins, minAmountOut, recipient, protection });
+    }
+
+    const tx = new Transaction();
+
+    if (protection) {
+      this.appendSwapProtection(
+        tx,
+        protection,
+        split.legs.map((leg) => ({ pool: leg.hops[0].pool, isAToB: leg.hops[0].isAToB, amountIn: leg.amountIn }))
+      );
+    }
+
+    const coinIn = mergeCoinsFor(tx, coins, split.amountIn, split.tokenIn);
+    const legCoins = tx.splitCoins(coinIn, split.legs.map((leg) => tx.pure.u64(leg.amountIn)));
+
+    const [coinOut, ...otherCoins] = split.legs.map((leg, index) =>
+      this.appendRouteHops(tx, leg, legCoins[index], 0n)
+    );
+    tx.mergeCoins(coinOut, otherCoins);
+
+    const amountOut = tx.moveCall({
+      target: "0x2::coin::value",
+      typeArguments: [this.coinType(split.tokenOut)],
+      arguments: [coinOut],
+    });
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}::assert_slippage_ok`,
+      arguments: [tx.pure.u64(minAmountOut), amountOut, tx.pure.u64(0)],
+    });
+
+    tx.transferObjects([coinOut], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build an exact-output swap PTB.
+   * The required input is recomputed on-chain with `math::calculate_input_amount` against
+   * each pool's reserves at execution time, working back from `amountOut`. It is split from
+   * a `maxAmountIn` budget, so the transaction aborts if the price moved past it, and
+   * whatever is left of the budget goes back to the user as change.
+   */
+  buildExactOutputSwap(params: BuildExactOutputSwapParams): Transaction {
+    const { route, coins, amountOut, maxAmountIn, recipient, protection } = params;
+    const tx = new Transaction();
+
+    // Work back from the last hop to the input the first hop needs
+    let amountNeeded: TransactionArgument = tx.pure.u64(amountOut);
+
+    for (const hop of [...route.hops].reverse()) {
+      const [reserveA, reserveB] = tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::get_reserves`,
+        typeArguments: [this.coinType(hop.pool.tokenA), this.coinType(hop.pool.tokenB)],
+        arguments: [tx.object(hop.pool.id)],
+      });
+
+      amountNeeded = tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.MATH}::calculate_input_amount`,
+        arguments: [
+          amountNeeded,
+          hop.isAToB ? reserveA : reserveB,
+          hop.isAToB ? reserveB : reserveA,
+          tx.pure.u64(hop.pool.feeTier),
+        ],
+      });
+    }
+
+    // Checked once the first hop's input is known, still ahead of every swap
+    if (protection) {
+      this.appendSwapProtection(tx, protection, [
+        { pool: route.hops[0].pool, isAToB: route.hops[0].isAToB, amountIn: amountNeeded },
+      ]);
+    }
+
+    const budget = splitCoinsFor(tx, coins, maxAmountIn, route.tokenIn);
+    const [coinIn] = tx.splitCoins(budget, [amountNeeded]);
+    const coinOut = this.appendRouteHops(tx, route, coinIn, amountOut);
+
+    tx.transferObjects([coinOut, budget], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build an add-liquidity PTB that mints a new LP Position NFT to `recipient`
+   */
+  buildAddLiquidity(params: BuildAddLiquidityParams): Transaction {
+    const { pool, coinsA, coinsB, amountA, amountB, minLpTokens, recipient } = params;
+    const tx = new Transaction();
+
+    const coinA = splitCoinsFor(tx, coinsA, amountA, pool.tokenA);
+    const coinB = splitCoinsFor(tx, coinsB, amountB, pool.tokenB);
+
+    const position = tx.moveCall({
+      target: `${this.deployment.packageId}::${this.poolModule(pool)}::add_liquidity`,
+      typeArguments: [this.coinType(pool.tokenA), this.coinType(pool.tokenB)],
+      arguments: [
+        tx.object(pool.id),
+        coinA,
+        coinB,
+        tx.pure.u64(minLpTokens),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([position], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that creates a StableSwapPool seeded with both coins and sends the
+   * LP Position NFT to `recipient`. Stable pools take fee tiers up to 0.3%.
+   */
+  buildCreateStablePool(params: BuildCreateStablePoolParams): Transaction {
+    const { tokenA, tokenB, coinsA, coinsB, amountA, amountB, amplification, feeTier, recipient } = params;
+    const tx = new Transaction();
+
+    const coinA = splitCoinsFor(tx, coinsA, amountA, tokenA);
+    const coinB = splitCoinsFor(tx, coinsB, amountB, tokenB);
+
+    const position = tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.STABLE_SWAP_POOL}::create_stable_pool`,
+      typeArguments: [this.coinType(tokenA), this.coinType(tokenB)],
+      arguments: [
+        coinA,
+        coinB,
+        tx.pure.u64(amplification),
+        tx.pure.u64(feeTier),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([position], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build an add-liquidity PTB that tops up an existing LP Position NFT
+   * (add_liquidity_to_position) instead of minting a new one
+   */
+  buildIncreaseLiquidity(params: BuildIncreaseLiquidityParams): Transaction {
+    const { pool, positionId, coinsA, coinsB, amountA, amountB, minLpTokens } = params;
+    if (pool.stable) {
+      throw new Error("stable_swap_pool has no add_liquidity_to_position; add to a stable pool as a new position");
+    }
+    const tx = new Transaction();
+
+    const coinA = splitCoinsFor(tx, coinsA, amountA, pool.tokenA);
+    const coinB = splitCoinsFor(tx, coinsB, amountB, pool.tokenB);
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::add_liquidity_to_position`,
+      typeArguments: [this.coinType(pool.tokenA), this.coinType(pool.tokenB)],
+      arguments: [
+        tx.object(pool.id),
+        tx.object(positionId),
+        coinA,
+        coinB,
+        tx.pure.u64(minLpTokens),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a create-pool PTB that seeds the pool and sends the LP Position NFT to `recipient`
+   */
+  buildCreatePool(params: BuildCreatePoolParams): Transaction {
+    const { tokenA, tokenB, coinsA, coinsB, amountA, amountB, feeTier, recipient } = params;
+    const tx = new Transaction();
+
+    const coinA = splitCoinsFor(tx, coinsA, amountA, tokenA);
+    const coinB = splitCoinsFor(tx, coinsB, amountB, tokenB);
+
+    const position = tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::create_pool`,
+      typeArguments: [this.coinType(tokenA), this.coinType(tokenB)],
+      arguments: [
+        tx.object(this.deployment.poolFactoryId),
+        coinA,
+        coinB,
+        tx.pure.u64(feeTier),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([position], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a remove-liquidity PTB that sends both withdrawn coins to `recipient`
+   */
+  buildRemoveLiquidity(params: BuildRemoveLiquidityParams): Transaction {
+    const { pool, positionId, lpTokens, minAmountA, minAmountB, recipient } = params;
+    const tx = new Transaction();
+
+    const [coinA, coinB] = tx.moveCall({
+      target: `${this.deployment.packageId}::${this.poolModule(pool)}::remove_liquidity`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [
+        tx.object(pool.id),
+        tx.object(positionId),
+        tx.pure.u64(lpTokens),
+        tx.pure.u64(minAmountA),
+        tx.pure.u64(minAmountB),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([coinA, coinB], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a transaction that withdraws a position's whole liquidity and burns its NFT
+   * (remove_all_liquidity). Fees not yet claimed are forfeited with the NFT.
+   */
+  buildRemoveAllLiquidity(params: BuildRemoveAllLiquidityParams): Transaction {
+    const { pool, positionId, minAmountA, minAmountB, recipient } = params;
+    const tx = new Transaction();
+
+    const [coinA, coinB] = tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::remove_all_liquidity`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [
+        tx.object(pool.id),
+        tx.object(positionId),
+        tx.pure.u64(minAmountA),
+        tx.pure.u64(minAmountB),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([coinA, coinB], tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB claiming fees for one or more positions (see buildClaimFeesTx)
+   */
+  buildClaimFees(params: BuildClaimFeesParams): Transaction {
+    return buildClaimFeesTx(params.claims, params.recipient, this.deployment.packageId);
+  }
+
+  /**
+   * Build a PTB that compounds the pending fees of one or more positions into extra
+   * LP tokens (fee_distributor::auto_compound). Fees are not claimed as coins:
+   * claim_fees_from_pool resets a position's fees and returns zero-value coins.
+   */
+  buildAutoCompound(params: BuildAutoCompoundParams): Transaction {
+    const { positions } = params;
+    if (positions.length === 0) {
+      throw new Error("No positions to compound");
+    }
+
+    const tx = new Transaction();
+
+    for (const position of positions) {
+      tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::auto_compound`,
+        typeArguments: [position.coinAType, position.coinBType],
+        arguments: [
+          tx.object(position.poolId),
+          tx.object(position.positionId),
+          tx.object(CLOCK_ID),
+        ],
+      });
+    }
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that sends an LP Position NFT to another address.
+   * PositionTransferred is emitted alongside so the move shows up in position history.
+   */
+  buildTransferPosition(params: BuildTransferPositionParams): Transaction {
+    const { positionId, from, to } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::events::emit_position_transferred`,
+      arguments: [
+        tx.pure.id(positionId),
+        tx.pure.address(from),
+        tx.pure.address(to),
+      ],
+    });
+
+    tx.transferObjects([tx.object(positionId)], tx.pure.address(to));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that pauses or unpauses a pool (pool_factory::set_pool_paused)
+   */
+  buildSetPoolPaused(params: BuildSetPoolPausedParams): Transaction {
+    const { adminCapId, pool, paused } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::set_pool_paused`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [tx.object(adminCapId), tx.object(pool.poolId), tx.pure.bool(paused)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that pauses or unpauses pool creation (pool_factory::set_creation_paused)
+   */
+  buildSetCreationPaused(params: BuildSetCreationPausedParams): Transaction {
+    const { adminCapId, paused } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::set_creation_paused`,
+      arguments: [tx.object(adminCapId), tx.object(this.deployment.poolFactoryId), tx.pure.bool(paused)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that changes the factory's protocol fee recipient
+   * (pool_factory::set_protocol_fee_recipient)
+   */
+  buildSetProtocolFeeRecipient(params: BuildSetFeeRecipientParams): Transaction {
+    const { adminCapId, recipient } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::set_protocol_fee_recipient`,
+      arguments: [tx.object(adminCapId), tx.object(this.deployment.poolFactoryId), tx.pure.address(recipient)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that collects protocol fees from several pools and sends every coin to `recipient`
+   */
+  buildCollectProtocolFees(params: BuildCollectProtocolFeesParams): Transaction {
+    const { adminCapId, pools, recipient } = params;
+    if (pools.length === 0) {
+      throw new Error("No pools to collect protocol fees from");
+    }
+
+    const tx = new Transaction();
+    const feeCoins = [];
+
+    for (const pool of pools) {
+      const [coinA, coinB] = tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.POOL_FACTORY}::collect_protocol_fees`,
+        typeArguments: [pool.coinAType, pool.coinBType],
+        arguments: [tx.object(adminCapId), tx.object(pool.poolId), tx.object(this.deployment.poolFactoryId)],
+      });
+      feeCoins.push(coinA, coinB);
+    }
+
+    tx.transferObjects(feeCoins, tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that changes the FeeDistributor's protocol fee recipient
+   * (fee_distributor::set_protocol_fee_recipient)
+   */
+  buildSetDistributorFeeRecipient(params: BuildSetFeeRecipientParams): Transaction {
+    const { adminCapId, recipient } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::set_protocol_fee_recipient`,
+      arguments: [tx.object(adminCapId), tx.object(this.deployment.feeDistributorId), tx.pure.address(recipient)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that sets the smallest fee amount a position may claim
+   * (fee_distributor::set_min_claim_amount)
+   */
+  buildSetMinClaimAmount(params: BuildSetMinClaimAmountParams): Transaction {
+    const { adminCapId, amount } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::set_min_claim_amount`,
+      arguments: [tx.object(adminCapId), tx.object(this.deployment.feeDistributorId), tx.pure.u64(amount)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that turns auto-compounding on or off by default
+   * (fee_distributor::set_auto_compound_default)
+   */
+  buildSetAutoCompoundDefault(params: BuildSetAutoCompoundDefaultParams): Transaction {
+    const { adminCapId, enabled } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::set_auto_compound_default`,
+      arguments: [tx.object(adminCapId), tx.object(this.deployment.feeDistributorId), tx.pure.bool(enabled)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that withdraws the fees held by several accumulators and sends every coin
+   * to `recipient` (fee_distributor::withdraw_accumulated_fees)
+   */
+  buildWithdrawAccumulatedFees(params: BuildWithdrawAccumulatedFeesParams): Transaction {
+    const { adminCapId, accumulators, recipient } = params;
+    if (accumulators.length === 0) {
+      throw new Error("No accumulators to withdraw from");
+    }
+
+    const tx = new Transaction();
+    const feeCoins = [];
+
+    for (const accumulator of accumulators) {
+      const [coinA, coinB] = tx.moveCall({
+        target: `${this.deployment.packageId}::${MODULES.FEE_DISTRIBUTOR}::withdraw_accumulated_fees`,
+        typeArguments: [accumulator.coinAType, accumulator.coinBType],
+        arguments: [tx.object(adminCapId), tx.object(accumulator.accumulatorId)],
+      });
+      feeCoins.push(coinA, coinB);
+    }
+
+    tx.transferObjects(feeCoins, tx.pure.address(recipient));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that ramps a stable pool's amplification towards `targetAmplification`,
+   * starting when the transaction executes (stable_swap_pool::ramp_amplification)
+   */
+  buildRampAmplification(params: BuildRampAmplificationParams): Transaction {
+    const { adminCapId, pool, targetAmplification, durationMs } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.STABLE_SWAP_POOL}::ramp_amplification`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [
+        tx.object(adminCapId),
+        tx.object(pool.poolId),
+        tx.pure.u64(targetAmplification),
+        tx.pure.u64(durationMs),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that ends a stable pool's amplification ramp early (stable_swap_pool::stop_ramp)
+   */
+  buildStopRamp(params: BuildStopRampParams): Transaction {
+    const { adminCapId, pool } = params;
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.STABLE_SWAP_POOL}::stop_ramp`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [tx.object(adminCapId), tx.object(pool.poolId)],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that creates a UserSlippageSettings object and sends it to `owner`
+   * (slippage_protection::create_user_settings)
+   */
+  buildCreateUserSettings(params: BuildCreateUserSettingsParams): Transaction {
+    const { settings, owner } = params;
+    const slippageModule = `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}`;
+    const tx = new Transaction();
+
+    const [userSettings] = tx.moveCall({
+      target: `${slippageModule}::create_user_settings`,
+      arguments: [
+        tx.pure.u64(settings.slippageBps),
+        tx.pure.u64(settings.deadlineMs),
+        tx.pure.u64(settings.maxPriceImpactBps),
+      ],
+    });
+
+    // create_user_settings always enables protection, so apply the user's choice in the same PTB
+    if (!settings.usePriceImpactProtection) {
+      tx.moveCall({
+        target: `${slippageModule}::update_price_impact_protection`,
+        arguments: [userSettings, tx.pure.bool(false), tx.pure.u64(settings.maxPriceImpactBps)],
+      });
+    }
+
+    tx.transferObjects([userSettings], tx.pure.address(owner));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that writes tolerance, deadline and price impact protection
+   * to an existing UserSlippageSettings object
+   */
+  buildUpdateUserSettings(params: BuildUpdateUserSettingsParams): Transaction {
+    const { settingsId, settings } = params;
+    const slippageModule = `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}`;
+    const tx = new Transaction();
+    const userSettings = tx.object(settingsId);
+
+    tx.moveCall({
+      target: `${slippageModule}::update_slippage_tolerance`,
+      arguments: [userSettings, tx.pure.u64(settings.slippageBps)],
+    });
+    tx.moveCall({
+      target: `${slippageModule}::update_deadline`,
+      arguments: [userSettings, tx.pure.u64(settings.deadlineMs)],
+    });
+    tx.moveCall({
+      target: `${slippageModule}::update_price_impact_protection`,
+      arguments: [
+        userSettings,
+        tx.pure.bool(settings.usePriceImpactProtection),
+        tx.pure.u64(settings.maxPriceImpactBps),
+      ],
+    });
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that creates a PriceLimitOrder and sends it to `owner`
+   * (slippage_protection::create_price_limit_order). No tokens are escrowed.
+   */
+  buildCreateLimitOrder(params: BuildCreateLimitOrderParams): Transaction {
+    const { pool, amountIn, minPrice, isAToB, durationMs, owner } = params;
+    const tx = new Transaction();
+
+    const [limitOrder] = tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}::create_price_limit_order`,
+      typeArguments: [pool.coinAType, pool.coinBType],
+      arguments: [
+        tx.object(pool.poolId),
+        tx.pure.u64(amountIn),
+        tx.pure.u64(minPrice),
+        tx.pure.bool(isAToB),
+        tx.pure.u64(durationMs),
+        tx.object(CLOCK_ID),
+      ],
+    });
+
+    tx.transferObjects([limitOrder], tx.pure.address(owner));
+
+    return tx;
+  }
+
+  /**
+   * Build a PTB that cancels a PriceLimitOrder (slippage_protection::cancel_price_limit_order)
+   */
+  buildCancelLimitOrder(params: BuildCancelLimitOrderParams): Transaction {
+    const tx = new Transaction();
+
+    tx.moveCall({
+      target: `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}::cancel_price_limit_order`,
+      arguments: [tx.object(params.orderId)],
+    });
+
+    return tx;
+  }
+
+  // ============ Helpers ============
+
+  /**
+   * Every object of `structType` owned by `owner`, following getOwnedObjects cursors
+   */
+  private async getAllOwnedObjects(
+    owner: string,
+    structType: string,
+    options: SuiObjectDataOptions
+  ): Promise<SuiObjectResponse[]> {
+    const objects: SuiObjectResponse[] = [];
+    let cursor: string | null | undefined = null;
+
+    do {
+      const page = await this.client.getOwnedObjects({
+        owner,
+        filter: { StructType: structType },
+        options,
+        cursor,
+      });
+      objects.push(...page.data);
+      cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return objects;
+  }
+
+  /**
+   * Decode a page of events, adding any malformed ones to skippedEventCount
+   */
+  private decodeEvents(raws: SuiEvent[]): AmmEvent[] {
+    const { events, skipped } = decodeAmmEvents(raws);
+    this.skippedEventCount += skipped;
+    return events;
+  }
+
+  /**
+   * Resolve a demo token's coin type for this deployment
+   */
+  coinType(symbol: TokenSymbol): string {
+    const token = DEMO_TOKENS[symbol];
+    return `${this.deployment.packageId}::${token.module}::${token.type.split("::").pop()}`;
+  }
+
+  /**
+   * Move module that implements a pool's swap and liquidity functions
+   */
+  private poolModule(pool: Pick<PoolState, "stable">): string {
+    return pool.stable ? MODULES.STABLE_SWAP_POOL : MODULES.POOL_FACTORY;
+  }
+
+  /**
+   * Append the checks of `protection` ahead of the swaps: `assert_deadline_not_passed`, then
+   * `validate_swap_with_user_settings` for each constant product entry hop. Validation only
+   * reports the price impact, so it is read back with `get_validated_params` and enforced with
+   * `assert_price_impact_ok` when the user has protection on. Stable pools have no validator.
+   */
+  private appendSwapProtection(
+    tx: Transaction,
+    protection: SwapProtection,
+    entries: {
+      pool: Pick<PoolSummary, "id" | "tokenA" | "tokenB" | "stable">;
+      isAToB: boolean;
+      amountIn: bigint | TransactionArgument;
+    }[]
+  ) {
+    const slippageModule = `${this.deployment.packageId}::${MODULES.SLIPPAGE_PROTECTION}`;
+
+    tx.moveCall({
+      target: `${slippageModule}::assert_deadline_not_passed`,
+      arguments: [tx.pure.u64(protection.deadlineMs), tx.object(CLOCK_ID)],
+    });
+
+    const { userSettings } = protection;
+    if (!userSettings) return;
+
+    for (const { pool, isAToB, amountIn } of entries) {
+      if (pool.stable) continue;
+
+      const validated = tx.moveCall({
+        target: `${slippageModule}::validate_swap_with_user_settings`,
+        typeArguments: [this.coinType(pool.tokenA), this.coinType(pool.tokenB)],
+        arguments: [
+          tx.object(pool.id),
+          typeof amountIn === "bigint" ? tx.pure.u64(amountIn) : amountIn,
+          tx.object(userSettings.id),
+          tx.object(CLOCK_ID),
+          tx.pure.bool(isAToB),
+        ],
+      });
+
+      if (!userSettings.usePriceImpactProtection) continue;
+
+      const [, , priceImpact] = tx.moveCall({
+        target: `${slippageModule}::get_validated_params`,
+        arguments: [validated],
+      });
+
+      tx.moveCall({
+        target: `${slippageModule}::assert_price_impact_ok`,
+        arguments: [priceImpact, tx.pure.u64(userSettings.maxPriceImpactBps)],
+      });
+    }
+  }
+
+  /**
+   * Append one swap per hop of `route`, threading each output into the next hop.
+   * Only the last hop carries `minAmountOut`.
+   */
+  private appendRouteHops(
+    tx: Transaction,
+    route: SwapRoute,
+    coinIn: TransactionObjectArgument,
+    minAmountOut: bigint
+  ): TransactionObjectArgument {
+    let coin = coinIn;
+
+    route.hops.forEach((hop, index) => {
+      const isLastHop = index === route.hops.length - 1;
+      const swapFunction = hop.isAToB ? "swap_a_for_b" : "swap_b_for_a";
+
+      coin = tx.moveCall({
+        target: `${this.deployment.packageId}::${this.poolModule(hop.pool)}::${swapFunction}`,
+        typeArguments: [this.coinType(hop.pool.tokenA), this.coinType(hop.pool.tokenB)],
+        arguments: [
+          tx.object(hop.pool.id),
+          coin,
+          tx.pure.u64(isLastHop ? minAmountOut : 0n),
+        ],
+      });
+    });
+
+    return coin;
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { InsufficientBalanceError, selectCoins, type CoinObject } from "./coins";
+
+const coins: CoinObject[] = [
+  { id: "0x1", balance: 50n },
+  { id: "0x2", balance: 500n },
+  { id: "0x3", balance: 200n },
+  { id: "0x4", balance: 10n },
+];
+
+describe("selectCoins", () => {
+  it("uses the smallest single coin that covers the amount", () => {
+    expect(selectCoins(coins, 150n, "USDC").map((coin) => coin.id)).toEqual(["0x3"]);
+    expect(selectCoins(coins, 200n, "USDC").map((coin) => coin.id)).toEqual(["0x3"]);
+    expect(selectCoins(coins, 201n, "USDC").map((coin) => coin.id)).toEqual(["0x2"]);
+  });
+
+  it("takes coins largest first when no single coin is enough", () => {
+    expect(selectCoins(coins, 600n, "USDC").map((coin) => coin.id)).toEqual(["0x2", "0x3"]);
+    expect(selectCoins(coins, 760n, "USDC").map((coin) => coin.id)).toEqual(["0x2", "0x3", "0x1", "0x4"]);
+  });
+
+  it("selects nothing for a zero amount", () => {
+    expect(selectCoins(coins, 0n, "USDC")).toEqual([]);
+  });
+
+  it("throws when all coins together fall short", () => {
+    expect(() => selectCoins(coins, 761n, "USDC")).toThrow(InsufficientBalanceError);
+    expect(() => selectCoins([], 1n, "USDC")).toThrow("No USDC in wallet");
+  });
+});
@@ -0,0 +1,116 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { Transaction, type TransactionObjectArgument } from "@mysten/sui/transactions";
+import { DEMO_TOKENS, TokenSymbol } from "./constants";
+import { formatTokenAmount } from "./transactions";
+
+/**
+ * A single owned coin object
+ */
+export interface CoinObject {
+  id: string;
+  balance: bigint;
+}
+
+/**
+ * Thrown when the owned coins of a token can't cover an amount
+ */
+export class InsufficientBalanceError extends Error {
+  constructor(
+    readonly symbol: TokenSymbol,
+    readonly required: bigint,
+    readonly available: bigint
+  ) {
+    const { decimals } = DEMO_TOKENS[symbol];
+    super(
+      available === 0n
+        ? `No ${symbol} in wallet (need ${formatTokenAmount(required, decimals)} ${symbol})`
+        : `Insufficient ${symbol} balance: need ${formatTokenAmount(required, decimals)}, have ${formatTokenAmount(available, decimals)}`
+    );
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+/**
+ * Fetch every coin object of `coinType` owned by `owner`, following getCoins cursors
+ */
+export async function fetchAllCoins(client: SuiClient, owner: string, coinType: string): Promise<CoinObject[]> {
+  const coins: CoinObject[] = [];
+  let cursor: string | null | undefined = null;
+
+  do {
+    const page = await client.getCoins({ owner, coinType, cursor });
+    for (const coin of page.data) {
+      coins.push({ id: coin.coinObjectId, balance: BigInt(coin.balance) });
+    }
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return coins;
+}
+
+/**
+ * Pick the fewest coins whose combined balance covers `amount`.
+ * A single coin is used when one is big enough (the smallest such coin, to keep
+ * large coins intact); otherwise coins are taken largest first.
+ * Throws InsufficientBalanceError if all coins together fall short.
+ */
+export function selectCoins(coins: CoinObject[], amount: bigint, symbol: TokenSymbol): CoinObject[] {
+  const available = coins.reduce((sum, coin) => sum + coin.balance, 0n);
+  if (available < amount) {
+    throw new InsufficientBalanceError(symbol, amount, available);
+  }
+  if (amount <= 0n) {
+    return [];
+  }
+
+  const sorted = [...coins].sort((a, b) => (a.balance > b.balance ? -1 : a.balance < b.balance ? 1 : 0));
+
+  const single = sorted.filter((coin) => coin.balance >= amount).pop();
+  if (single) return [single];
+
+  const selected: CoinObject[] = [];
+  let total = 0n;
+  for (const coin of sorted) {
+    selected.push(coin);
+    total += coin.balance;
+    if (total >= amount) break;
+  }
+
+  return selected;
+}
+
+/**
+ * Select coins covering `amount`, merge them into one and return it.
+ * Only the selected objects are written to, so dust coins stay untouched.
+ */
+export function mergeCoinsFor(
+  tx: Transaction,
+  coins: CoinObject[],
+  amount: bigint,
+  symbol: TokenSymbol
+): TransactionObjectArgument {
+  const selected = selectCoins(coins, amount, symbol);
+  if (selected.length === 0) {
+    throw new Error(`Nothing to spend: ${symbol} amount must be greater than zero`);
+  }
+
+  const [primaryCoin, ...otherCoins] = selected;
+  if (otherCoins.length > 0) {
+    tx.mergeCoins(tx.object(primaryCoin.id), otherCoins.map((coin) => tx.object(coin.id)));
+  }
+
+  return tx.object(primaryCoin.id);
+}
+
+/**
+ * Select and merge coins covering `amount`, then split exactly `amount` off
+ */
+export function splitCoinsFor(
+  tx: Transaction,
+  coins: CoinObject[],
+  amount: bigint,
+  symbol: TokenSymbol
+): TransactionObjectArgument {
+  const [coin] = tx.splitCoins(mergeCoinsFor(tx, coins, amount, symbol), [tx.pure.u64(amount)]);
+  return coin;
+}
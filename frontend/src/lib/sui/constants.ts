@@ -11,6 +11,21 @@ export const PUBLIC_FAUCET_INITIAL_VERSION = 349181019;
 // System Objects
 export const CLOCK_ID = "0x6";
 
+// Deployment config consumed by AmmClient (swap it out to target another deployment)
+export interface AmmDeployment {
+  packageId: string;
+  poolFactoryId: string;
+  feeDistributorId: string;
+  slippageSettingsId: string;
+}
+
+export const DEFAULT_DEPLOYMENT: AmmDeployment = {
+  packageId: PACKAGE_ID,
+  poolFactoryId: POOL_FACTORY_ID,
+  feeDistributorId: FEE_DISTRIBUTOR_ID,
+  slippageSettingsId: SLIPPAGE_SETTINGS_ID,
+};
+
 // Module Names
 export const MODULES = {
   POOL_FACTORY: "pool_factory",
@@ -19,6 +34,7 @@ export const MODULES = {
   FEE_DISTRIBUTOR: "fee_distributor",
   SLIPPAGE_PROTECTION: "slippage_protection",
   DEMO_TOKENS: "demo_tokens",
+  MATH: "math",
 } as const;
 
 // Fee Tiers (in basis points)
@@ -28,6 +44,21 @@ export const FEE_TIERS = {
   HIGH: 100,   // 1%
 } as const;
 
+// StableSwap amplification bounds (constants::min/max/default_amplification)
+export const STABLE_AMPLIFICATION = {
+  MIN: 1,
+  MAX: 1_000_000,
+  DEFAULT: 100,
+} as const;
+
+// Swap protection defaults and limits (slippage_protection.move constants, bps / ms)
+export const SLIPPAGE_DEFAULTS = {
+  TOLERANCE_BPS: 50,
+  MAX_TOLERANCE_BPS: 5000,
+  DEADLINE_MS: 1_800_000,
+  MAX_PRICE_IMPACT_BPS: 1000,
+} as const;
+
 // Demo Token Types (each token in its own module for OTW compliance)
 export const DEMO_TOKENS = {
   USDC: {
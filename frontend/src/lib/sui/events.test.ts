@@ -0,0 +1,98 @@
+import type { SuiEvent, SuiObjectChange } from "@mysten/sui/client";
+import { describe, expect, it } from "vitest";
+import { decodeAmmEvent, isPoolEmittedSwap, isVerifiedTransfer, type AmmEventOf } from "./events";
+
+const PACKAGE_ID = `0x${"ab".repeat(32)}`;
+const ALICE = `0x${"01".repeat(32)}`;
+const BOB = `0x${"03".repeat(32)}`;
+const POSITION_ID = `0x${"04".repeat(32)}`;
+
+function swapEvent(packageId: string, transactionModule: string): AmmEventOf<"SwapExecuted"> {
+  const raw: SuiEvent = {
+    id: { txDigest: "digest", eventSeq: "0" },
+    packageId,
+    transactionModule,
+    sender: `0x${"01".repeat(32)}`,
+    type: `${PACKAGE_ID}::events::SwapExecuted`,
+    parsedJson: {
+      pool_id: `0x${"02".repeat(32)}`,
+      sender: `0x${"01".repeat(32)}`,
+      amount_in: "1000",
+      amount_out: "990",
+      fee_amount: "3",
+      is_a_to_b: true,
+      reserve_a_after: "101000",
+      reserve_b_after: "99010",
+    },
+    bcs: "",
+    bcsEncoding: "base64",
+    timestampMs: "1700000000000",
+  };
+
+  const decoded = decodeAmmEvent(raw);
+  if (decoded.status !== "ok" || decoded.event.name !== "SwapExecuted") {
+    throw new Error("fixture did not decode");
+  }
+  return decoded.event;
+}
+
+describe("isPoolEmittedSwap", () => {
+  it("accepts swaps emitted from this package's pool modules", () => {
+    expect(isPoolEmittedSwap(swapEvent(PACKAGE_ID, "pool_factory"), PACKAGE_ID)).toBe(true);
+    expect(isPoolEmittedSwap(swapEvent(PACKAGE_ID, "stable_swap_pool"), PACKAGE_ID)).toBe(true);
+  });
+
+  it("rejects swaps reported by calling emit_swap_executed directly or from another package", () => {
+    expect(isPoolEmittedSwap(swapEvent(PACKAGE_ID, "events"), PACKAGE_ID)).toBe(false);
+    expect(isPoolEmittedSwap(swapEvent(`0x${"cd".repeat(32)}`, "pool_factory"), PACKAGE_ID)).toBe(false);
+  });
+});
+
+function transferEvent(sender: string, from: string, to: string): AmmEventOf<"PositionTransferred"> {
+  const raw: SuiEvent = {
+    id: { txDigest: "digest", eventSeq: "0" },
+    packageId: PACKAGE_ID,
+    transactionModule: "events",
+    sender,
+    type: `${PACKAGE_ID}::events::PositionTransferred`,
+    parsedJson: { position_id: POSITION_ID, from, to },
+    bcs: "",
+    bcsEncoding: "base64",
+    timestampMs: "1700000000000",
+  };
+
+  const decoded = decodeAmmEvent(raw);
+  if (decoded.status !== "ok" || decoded.event.name !== "PositionTransferred") {
+    throw new Error("fixture did not decode");
+  }
+  return decoded.event;
+}
+
+function positionMutated(objectId: string, owner: string): SuiObjectChange {
+  return {
+    type: "mutated",
+    sender: ALICE,
+    owner: { AddressOwner: owner },
+    objectType: `${PACKAGE_ID}::lp_position_nft::LPPositionNFT`,
+    objectId,
+    version: "2",
+    previousVersion: "1",
+    digest: "object-digest",
+  };
+}
+
+describe("isVerifiedTransfer", () => {
+  it("accepts a transfer whose transaction moved the position to the recipient", () => {
+    expect(isVerifiedTransfer(transferEvent(ALICE, ALICE, BOB), [positionMutated(POSITION_ID, BOB)])).toBe(true);
+  });
+
+  it("rejects a transfer reported by someone other than the sender", () => {
+    expect(isVerifiedTransfer(transferEvent(BOB, ALICE, BOB), [positionMutated(POSITION_ID, BOB)])).toBe(false);
+  });
+
+  it("rejects a self-reported transfer whose transaction never moved the position", () => {
+    expect(isVerifiedTransfer(transferEvent(ALICE, ALICE, BOB), [])).toBe(false);
+    expect(isVerifiedTransfer(transferEvent(ALICE, ALICE, BOB), [positionMutated(POSITION_ID, ALICE)])).toBe(false);
+    expect(isVerifiedTransfer(transferEvent(ALICE, ALICE, BOB), [positionMutated(`0x${"05".repeat(32)}`, BOB)])).toBe(false);
+  });
+});
@@ -0,0 +1,505 @@
+import type { ObjectOwner, SuiEvent, SuiObjectChange } from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { MODULES } from "./constants";
+
+/**
+ * Typed models and decoders for the events emitted by events.move.
+ * u64 fields become bigint, `vector<u8>` type names become type strings,
+ * and anything that doesn't match its Move struct is rejected explicitly.
+ */
+
+// ============ Event Models ============
+
+export interface PoolCreatedEvent {
+  name: "PoolCreated";
+  poolId: string;
+  /** Fully qualified coin type, e.g. `0x...::demo_usdc::DEMO_USDC` */
+  tokenAType: string;
+  tokenBType: string;
+  feeTier: bigint;
+  initialReserveA: bigint;
+  initialReserveB: bigint;
+  creator: string;
+}
+
+export interface PoolStatusChangedEvent {
+  name: "PoolStatusChanged";
+  poolId: string;
+  isPaused: boolean;
+}
+
+export interface LiquidityAddedEvent {
+  name: "LiquidityAdded";
+  poolId: string;
+  positionId: string;
+  provider: string;
+  amountA: bigint;
+  amountB: bigint;
+  lpTokensMinted: bigint;
+  totalSupplyAfter: bigint;
+}
+
+export interface LiquidityRemovedEvent {
+  name: "LiquidityRemoved";
+  poolId: string;
+  positionId: string;
+  provider: string;
+  amountA: bigint;
+  amountB: bigint;
+  lpTokensBurned: bigint;
+  totalSupplyAfter: bigint;
+}
+
+export interface SwapExecutedEvent {
+  name: "SwapExecuted";
+  poolId: string;
+  sender: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+  isAToB: boolean;
+  reserveAAfter: bigint;
+  reserveBAfter: bigint;
+}
+
+export interface FeesClaimedEvent {
+  name: "FeesClaimed";
+  poolId: string;
+  positionId: string;
+  claimer: string;
+  feeAmountA: bigint;
+  feeAmountB: bigint;
+}
+
+export interface ProtocolFeesCollectedEvent {
+  name: "ProtocolFeesCollected";
+  poolId: string;
+  amountA: bigint;
+  amountB: bigint;
+  collector: string;
+}
+
+export interface FeesCompoundedEvent {
+  name: "FeesCompounded";
+  poolId: string;
+  positionId: string;
+  feeAmountA: bigint;
+  feeAmountB: bigint;
+  additionalLpTokens: bigint;
+}
+
+export interface PositionMintedEvent {
+  name: "PositionMinted";
+  positionId: string;
+  poolId: string;
+  owner: string;
+  lpTokens: bigint;
+}
+
+export interface PositionBurnedEvent {
+  name: "PositionBurned";
+  positionId: string;
+  poolId: string;
+  owner: string;
+}
+
+export interface PositionUpdatedEvent {
+  name: "PositionUpdated";
+  positionId: string;
+  lpTokens: bigint;
+  accumulatedFeesA: bigint;
+  accumulatedFeesB: bigint;
+}
+
+export interface PositionTransferredEvent {
+  name: "PositionTransferred";
+  positionId: string;
+  from: string;
+  to: string;
+}
+
+export type AmmEventData =
+  | PoolCreatedEvent
+  | PoolStatusChangedEvent
+  | LiquidityAddedEvent
+  | LiquidityRemovedEvent
+  | SwapExecutedEvent
+  | FeesClaimedEvent
+  | ProtocolFeesCollectedEvent
+  | FeesCompoundedEvent
+  | PositionMintedEvent
+  | PositionBurnedEvent
+  | PositionUpdatedEvent
+  | PositionTransferredEvent;
+
+export type AmmEventName = AmmEventData["name"];
+
+/**
+ * Where and when an event was emitted
+ */
+export interface EventEnvelope {
+  txDigest: string;
+  eventSeq: string;
+  sender: string;
+  /** Package and module of the PTB Move call that emitted the event */
+  packageId: string;
+  transactionModule: string;
+  /** Checkpoint timestamp in ms, null if the node didn't report one */
+  timestampMs: number | null;
+}
+
+export type AmmEvent = AmmEventData & EventEnvelope;
+
+/** A decoded event of one kind, e.g. `AmmEventOf<"SwapExecuted">` */
+export type AmmEventOf<N extends AmmEventName> = Extract<AmmEventData, { name: N }> & EventEnvelope;
+
+/**
+ * Result of decoding one raw event: a typed event, an event type this module
+ * doesn't know, or a known event whose payload doesn't match its struct
+ */
+export type DecodedEvent =
+  | { status: "ok"; event: AmmEvent }
+  | { status: "unknown"; type: string; raw: SuiEvent }
+  | { status: "malformed"; type: string; error: string; raw: SuiEvent };
+
+/**
+ * Thrown when an event payload is missing a field or has the wrong shape
+ */
+export class MalformedEventError extends Error {
+  constructor(readonly field: string, reason: string) {
+    super(`${field}: ${reason}`);
+    this.name = "MalformedEventError";
+  }
+}
+
+// ============ Field Readers ============
+
+type EventFields = Record<string, unknown>;
+
+function asFields(json: unknown): EventFields {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new MalformedEventError("parsedJson", "expected an object");
+  }
+  return json as EventFields;
+}
+
+function readU64(fields: EventFields, key: string): bigint {
+  const value = fields[key];
+  if (typeof value === "string" && /^\d+$/.test(value)) return BigInt(value);
+  if (typeof value === "number" && Number.isSafeInteger(value) && value >= 0) return BigInt(value);
+  throw new MalformedEventError(key, `expected u64, got ${JSON.stringify(value)}`);
+}
+
+function readBool(fields: EventFields, key: string): boolean {
+  const value = fields[key];
+  if (typeof value === "boolean") return value;
+  throw new MalformedEventError(key, `expected bool, got ${JSON.stringify(value)}`);
+}
+
+/** Read an `ID` or `address` field */
+function readAddress(fields: EventFields, key: string): string {
+  const value = fields[key];
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{1,64}$/.test(value)) return value;
+  throw new MalformedEventError(key, `expected address, got ${JSON.stringify(value)}`);
+}
+
+/**
+ * Read a `vector<u8>` holding `type_name::into_string` output and return it as a
+ * type string. type_name omits the `0x` prefix on the address, so it is added back.
+ */
+function readTypeName(fields: EventFields, key: string): string {
+  const value = fields[key];
+
+  let typeName: string;
+  if (Array.isArray(value) && value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255)) {
+    typeName = new TextDecoder().decode(Uint8Array.from(value as number[]));
+  } else if (typeof value === "string") {
+    typeName = value;
+  } else {
+    throw new MalformedEventError(key, "expected vector<u8> type name");
+  }
+
+  if (!/^(0x)?[0-9a-fA-F]+::\w+::\w+/.test(typeName)) {
+    throw new MalformedEventError(key, `not a type name: ${typeName}`);
+  }
+
+  return typeName.startsWith("0x") ? typeName : `0x${typeName}`;
+}
+
+// ============ Decoders ============
+
+export function decodePoolCreated(json: unknown): PoolCreatedEvent {
+  const fields = asFields(json);
+  return {
+    name: "PoolCreated",
+    poolId: readAddress(fields, "pool_id"),
+    tokenAType: readTypeName(fields, "token_a_type"),
+    tokenBType: readTypeName(fields, "token_b_type"),
+    feeTier: readU64(fields, "fee_tier"),
+    initialReserveA: readU64(fields, "initial_reserve_a"),
+    initialReserveB: readU64(fields, "initial_reserve_b"),
+    creator: readAddress(fields, "creator"),
+  };
+}
+
+export function decodePoolStatusChanged(json: unknown): PoolStatusChangedEvent {
+  const fields = asFields(json);
+  return {
+    name: "PoolStatusChanged",
+    poolId: readAddress(fields, "pool_id"),
+    isPaused: readBool(fields, "is_paused"),
+  };
+}
+
+export function decodeLiquidityAdded(json: unknown): LiquidityAddedEvent {
+  const fields = asFields(json);
+  return {
+    name: "LiquidityAdded",
+    poolId: readAddress(fields, "pool_id"),
+    positionId: readAddress(fields, "position_id"),
+    provider: readAddress(fields, "provider"),
+    amountA: readU64(fields, "amount_a"),
+    amountB: readU64(fields, "amount_b"),
+    lpTokensMinted: readU64(fields, "lp_tokens_minted"),
+    totalSupplyAfter: readU64(fields, "total_supply_after"),
+  };
+}
+
+export function decodeLiquidityRemoved(json: unknown): LiquidityRemovedEvent {
+  const fields = asFields(json);
+  return {
+    name: "LiquidityRemoved",
+    poolId: readAddress(fields, "pool_id"),
+    positionId: readAddress(fields, "position_id"),
+    provider: readAddress(fields, "provider"),
+    amountA: readU64(fields, "amount_a"),
+    amountB: readU64(fields, "amount_b"),
+    lpTokensBurned: readU64(fields, "lp_tokens_burned"),
+    totalSupplyAfter: readU64(fields, "total_supply_after"),
+  };
+}
+
+export function decodeSwapExecuted(json: unknown): SwapExecutedEvent {
+  const fields = asFields(json);
+  return {
+    name: "SwapExecuted",
+    poolId: readAddress(fields, "pool_id"),
+    sender: readAddress(fields, "sender"),
+    amountIn: readU64(fields, "amount_in"),
+    amountOut: readU64(fields, "amount_out"),
+    feeAmount: readU64(fields, "fee_amount"),
+    isAToB: readBool(fields, "is_a_to_b"),
+    reserveAAfter: readU64(fields, "reserve_a_after"),
+    reserveBAfter: readU64(fields, "reserve_b_after"),
+  };
+}
+
+export function decodeFeesClaimed(json: unknown): FeesClaimedEvent {
+  const fields = asFields(json);
+  return {
+    name: "FeesClaimed",
+    poolId: readAddress(fields, "pool_id"),
+    positionId: readAddress(fields, "position_id"),
+    claimer: readAddress(fields, "claimer"),
+    feeAmountA: readU64(fields, "fee_amount_a"),
+    feeAmountB: readU64(fields, "fee_amount_b"),
+  };
+}
+
+export function decodeProtocolFeesCollected(json: unknown): ProtocolFeesCollectedEvent {
+  const fields = asFields(json);
+  return {
+    name: "ProtocolFeesCollected",
+    poolId: readAddress(fields, "pool_id"),
+    amountA: readU64(fields, "amount_a"),
+    amountB: readU64(fields, "amount_b"),
+    collector: readAddress(fields, "collector"),
+  };
+}
+
+export function decodeFeesCompounded(json: unknown): FeesCompoundedEvent {
+  const fields = asFields(json);
+  return {
+    name: "FeesCompounded",
+    poolId: readAddress(fields, "pool_id"),
+    positionId: readAddress(fields, "position_id"),
+    feeAmountA: readU64(fields, "fee_amount_a"),
+    feeAmountB: readU64(fields, "fee_amount_b"),
+    additionalLpTokens: readU64(fields, "additional_lp_tokens"),
+  };
+}
+
+export function decodePositionMinted(json: unknown): PositionMintedEvent {
+  const fields = asFields(json);
+  return {
+    name: "PositionMinted",
+    positionId: readAddress(fields, "position_id"),
+    poolId: readAddress(fields, "pool_id"),
+    owner: readAddress(fields, "owner"),
+    lpTokens: readU64(fields, "lp_tokens"),
+  };
+}
+
+export function decodePositionBurned(json: unknown): PositionBurnedEvent {
+  const fields = asFields(json);
+  return {
+    name: "PositionBurned",
+    positionId: readAddress(fields, "position_id"),
+    poolId: readAddress(fields, "pool_id"),
+    owner: readAddress(fields, "owner"),
+  };
+}
+
+export function decodePositionUpdated(json: unknown): PositionUpdatedEvent {
+  const fields = asFields(json);
+  return {
+    name: "PositionUpdated",
+    positionId: readAddress(fields, "position_id"),
+    lpTokens: readU64(fields, "lp_tokens"),
+    accumulatedFeesA: readU64(fields, "accumulated_fees_a"),
+    accumulatedFeesB: readU64(fields, "accumulated_fees_b"),
+  };
+}
+
+export function decodePositionTransferred(json: unknown): PositionTransferredEvent {
+  const fields = asFields(json);
+  return {
+    name: "PositionTransferred",
+    positionId: readAddress(fields, "position_id"),
+    from: readAddress(fields, "from"),
+    to: readAddress(fields, "to"),
+  };
+}
+
+const DECODERS: { [N in AmmEventName]: (json: unknown) => Extract<AmmEventData, { name: N }> } = {
+  PoolCreated: decodePoolCreated,
+  PoolStatusChanged: decodePoolStatusChanged,
+  LiquidityAdded: decodeLiquidityAdded,
+  LiquidityRemoved: decodeLiquidityRemoved,
+  SwapExecuted: decodeSwapExecuted,
+  FeesClaimed: decodeFeesClaimed,
+  ProtocolFeesCollected: decodeProtocolFeesCollected,
+  FeesCompounded: decodeFeesCompounded,
+  PositionMinted: decodePositionMinted,
+  PositionBurned: decodePositionBurned,
+  PositionUpdated: decodePositionUpdated,
+  PositionTransferred: decodePositionTransferred,
+};
+
+/**
+ * Split `0x...::events::SwapExecuted` into its module and struct name
+ */
+function parseEventType(type: string): { module: string; name: string } | null {
+  const parts = type.split("::");
+  if (parts.length !== 3) return null;
+  return { module: parts[1], name: parts[2] };
+}
+
+function isAmmEventName(name: string): name is AmmEventName {
+  return Object.prototype.hasOwnProperty.call(DECODERS, name);
+}
+
+/**
+ * Decode a raw SuiEvent from the `events` module
+ */
+export function decodeAmmEvent(raw: SuiEvent): DecodedEvent {
+  const parsedType = parseEventType(raw.type);
+  if (!parsedType || parsedType.module !== "events" || !isAmmEventName(parsedType.name)) {
+    return { status: "unknown", type: raw.type, raw };
+  }
+
+  try {
+    const data = DECODERS[parsedType.name](raw.parsedJson);
+    return {
+      status: "ok",
+      event: {
+        ...data,
+        txDigest: raw.id.txDigest,
+        eventSeq: raw.id.eventSeq,
+        sender: raw.sender,
+        packageId: raw.packageId,
+        transactionModule: raw.transactionModule,
+        timestampMs: raw.timestampMs ? Number(raw.timestampMs) : null,
+      },
+    };
+  } catch (error) {
+    if (error instanceof MalformedEventError) {
+      return { status: "malformed", type: raw.type, error: error.message, raw };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Decode a page of events, keeping the typed ones.
+ * Unknown events are dropped; malformed ones are dropped and counted in `skipped`.
+ */
+export function decodeAmmEvents(raws: SuiEvent[]): { events: AmmEvent[]; skipped: number } {
+  const events: AmmEvent[] = [];
+  let skipped = 0;
+
+  for (const raw of raws) {
+    const decoded = decodeAmmEvent(raw);
+    if (decoded.status === "ok") {
+      events.push(decoded.event);
+    } else if (decoded.status === "malformed") {
+      skipped++;
+    }
+  }
+
+  return { events, skipped };
+}
+
+/**
+ * Whether a SwapExecuted event came from a swap in one of `packageId`'s pool modules.
+ * events::emit_swap_executed is public, so a PTB calling it directly (or through another
+ * package) could report volume that never traded.
+ */
+export function isPoolEmittedSwap(event: AmmEventOf<"SwapExecuted">, packageId: string): boolean {
+  return (
+    normalizeSuiAddress(event.packageId) === normalizeSuiAddress(packageId) &&
+    (event.transactionModule === MODULES.POOL_FACTORY || event.transactionModule === MODULES.STABLE_SWAP_POOL)
+  );
+}
+
+/**
+ * Whether a PositionTransferred event records a transfer its own transaction made: the
+ * sender names itself as `from`, and `objectChanges` (from the same transaction) leave the
+ * position owned by `to`. events::emit_position_transferred is public and takes every field
+ * from the caller, so the event alone can name any position and any `from`.
+ */
+export function isVerifiedTransfer(
+  event: AmmEventOf<"PositionTransferred">,
+  objectChanges: SuiObjectChange[]
+): boolean {
+  if (normalizeSuiAddress(event.sender) !== normalizeSuiAddress(event.from)) {
+    return false;
+  }
+
+  const positionId = normalizeSuiAddress(event.positionId);
+  const to = normalizeSuiAddress(event.to);
+
+  return objectChanges.some((change) => {
+    if (change.type === "transferred") {
+      return normalizeSuiAddress(change.objectId) === positionId && addressOwner(change.recipient) === to;
+    }
+    if (change.type === "mutated") {
+      return normalizeSuiAddress(change.objectId) === positionId && addressOwner(change.owner) === to;
+    }
+    return false;
+  });
+}
+
+/**
+ * The owning address of an address-owned object, or null for shared, immutable and wrapped ones
+ */
+function addressOwner(owner: ObjectOwner): string | null {
+  return typeof owner === "object" && "AddressOwner" in owner ? normalizeSuiAddress(owner.AddressOwner) : null;
+}
+
+/**
+ * Narrow decoded events to a single kind
+ */
+export function filterEvents<N extends AmmEventName>(events: AmmEvent[], name: N): AmmEventOf<N>[] {
+  return events.filter((event): event is AmmEventOf<N> => event.name === name);
+}
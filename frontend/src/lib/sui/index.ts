@@ -1,5 +1,12 @@
 export * from "./constants";
 export * from "./transactions";
+export * from "./stable-swap";
+export * from "./coins";
+export * from "./events";
+export * from "./analytics";
+export * from "./pricing";
+export * from "./apr";
+export * from "./positions";
+export * from "./client";
+export * from "./router";
 export * from "./queries";
-
-
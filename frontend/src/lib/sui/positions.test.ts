@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import type { LPPosition, PoolState } from "./client";
+import { DEMO_TOKENS } from "./constants";
+import { valuePosition } from "./positions";
+
+// Amounts follow math::calculate_liquidity_removal, fees fee_distributor::calculate_claimable_fees
+// and the IL math::calculate_impermanent_loss, evaluated by hand for these inputs
+
+const pool: PoolState = {
+  id: "0xpool",
+  type: "pool_factory::LiquidityPool",
+  coinAType: DEMO_TOKENS.USDC.type,
+  coinBType: DEMO_TOKENS.USDT.type,
+  reserveA: 1_200_000000n,
+  reserveB: 800_000000n,
+  feeTier: 30,
+  totalSupply: 1_000_000000n,
+  isPaused: false,
+  feeGrowthGlobalA: 5n * 10n ** 16n,
+  feeGrowthGlobalB: 2n * 10n ** 16n,
+};
+
+const position: LPPosition = {
+  id: "0xposition",
+  poolId: pool.id,
+  lpTokens: 100_000000n,
+  initialAmountA: 100_000000n,
+  initialAmountB: 100_000000n,
+  accumulatedFeesA: 1000n,
+  accumulatedFeesB: 0n,
+  feeGrowthALast: 10n ** 16n,
+  feeGrowthBLast: 0n,
+  createdAt: 0,
+  lastUpdated: 0,
+};
+
+describe("valuePosition", () => {
+  it("values a position against the pool's reserves", () => {
+    const valuation = valuePosition(position, pool, { USDC: 1, USDT: 1 });
+
+    expect(valuation).toMatchObject({
+      tokenA: "USDC",
+      tokenB: "USDT",
+      currentAmountA: 120_000000n,
+      currentAmountB: 80_000000n,
+      pendingFeesA: 4_001000n,
+      pendingFeesB: 2_000000n,
+      ilPercent: -2.03,
+    });
+    expect(valuation?.valueUsd).toBeCloseTo(200);
+    expect(valuation?.feesUsd).toBeCloseTo(6.001);
+    expect(valuation?.hodlValueUsd).toBeCloseTo(200);
+    expect(valuation?.pnlUsd).toBeCloseTo(6.001);
+    expect(valuation?.pnlPercent).toBeCloseTo(3.0005);
+  });
+
+  it("reports no IL or P&L before the price moves", () => {
+    const valuation = valuePosition(
+      { ...position, accumulatedFeesA: 0n, feeGrowthALast: pool.feeGrowthGlobalA, feeGrowthBLast: pool.feeGrowthGlobalB },
+      { ...pool, reserveA: 1_000_000000n, reserveB: 1_000_000000n },
+      { USDC: 1, USDT: 1 }
+    );
+
+    expect(valuation?.ilPercent).toBeCloseTo(0);
+    expect(valuation?.pnlUsd).toBeCloseTo(0);
+  });
+
+  it("returns null for unknown coin types", () => {
+    expect(valuePosition(position, { ...pool, coinAType: "0x2::sui::SUI" }, {})).toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import type { LPPosition, PoolState } from "./client";
+import { toPoolSummary } from "./client";
+import type { TokenSymbol } from "./constants";
+import { getPairUsdValue, type TokenPrices } from "./pricing";
+import { calculateImpermanentLoss, calculateLpTokens, calculateRemoveLiquidityAmounts } from "./transactions";
+
+/** Fixed-point scale of fee_growth_global (constants::lp_precision) */
+const LP_PRECISION = 1_000_000_000_000_000_000n; // 10^18
+
+/**
+ * Fees a position can claim, in raw token units
+ */
+export interface PendingFees {
+  feesA: bigint;
+  feesB: bigint;
+}
+
+/**
+ * A position priced against its pool's live reserves
+ */
+export interface PositionValuation {
+  tokenA: TokenSymbol;
+  tokenB: TokenSymbol;
+  /** Underlying tokens the LP tokens redeem for right now */
+  currentAmountA: bigint;
+  currentAmountB: bigint;
+  valueUsd: number;
+  /** Fees claimable right now, including growth since the last snapshot */
+  pendingFeesA: bigint;
+  pendingFeesB: bigint;
+  /** Claimable fees in USD */
+  feesUsd: number;
+  /** What the initial deposit would be worth if held instead, at current prices */
+  hodlValueUsd: number;
+  pnlUsd: number;
+  pnlPercent: number;
+  /** Impermanent loss as a negative percentage (0 when the price hasn't moved) */
+  ilPercent: number;
+}
+
+/**
+ * Fees owed to a position (mirrors fee_distributor::calculate_claimable_fees):
+ * the pool's fee growth since the position's snapshot times its LP tokens,
+ * plus fees already credited to the position.
+ */
+export function calculatePendingFees(
+  position: Pick<LPPosition, "lpTokens" | "accumulatedFeesA" | "accumulatedFeesB" | "feeGrowthALast" | "feeGrowthBLast">,
+  pool: Pick<PoolState, "feeGrowthGlobalA" | "feeGrowthGlobalB">
+): PendingFees {
+  // Growth only increases, but a stale pool read could trail a fresh position read
+  const deltaA = pool.feeGrowthGlobalA > position.feeGrowthALast ? pool.feeGrowthGlobalA - position.feeGrowthALast : 0n;
+  const deltaB = pool.feeGrowthGlobalB > position.feeGrowthBLast ? pool.feeGrowthGlobalB - position.feeGrowthBLast : 0n;
+
+  return {
+    feesA: position.accumulatedFeesA + (position.lpTokens * deltaA) / LP_PRECISION,
+    feesB: position.accumulatedFeesB + (position.lpTokens * deltaB) / LP_PRECISION,
+  };
+}
+
+/**
+ * Whether pending fees clear the FeeDistributor's min_claim_amount on either side
+ */
+export function isClaimable(fees: PendingFees, minClaimAmount: bigint): boolean {
+  const threshold = minClaimAmount > 0n ? minClaimAmount : 1n;
+  return fees.feesA >= threshold || fees.feesB >= threshold;
+}
+
+/**
+ * LP tokens auto_compound would mint from pending fees at the pool's current ratio.
+ * Fees beyond the pool ratio on one side don't mint anything and are still consumed.
+ */
+export function previewCompound(
+  fees: PendingFees,
+  pool: Pick<PoolState, "reserveA" | "reserveB" | "totalSupply">
+): bigint {
+  if (pool.totalSupply === 0n || pool.reserveA === 0n || pool.reserveB === 0n) return 0n;
+  return calculateLpTokens(fees.feesA, fees.feesB, pool.reserveA, pool.reserveB, pool.totalSupply);
+}
+
+/**
+ * Format an LP token amount for display. LP tokens are plain u64 shares with no
+ * decimals of their own, so they are shown as whole units.
+ */
+export function formatLpTokens(amount: bigint): string {
+  return amount.toLocaleString();
+}
+
+/**
+ * Price change of token A in terms of B since the deposit, scaled by 10000
+ * (the price_ratio input of math::calculate_impermanent_loss)
+ */
+export function getPositionPriceRatio(
+  position: Pick<LPPosition, "initialAmountA" | "initialAmountB">,
+  pool: Pick<PoolState, "reserveA" | "reserveB">
+): bigint {
+  const denominator = pool.reserveA * position.initialAmountB;
+  if (denominator === 0n) return 10000n;
+  return (pool.reserveB * position.initialAmountA * 10000n) / denominator;
+}
+
+/**
+ * Value a position from its pool's current reserves and supply.
+ * P&L compares the current value plus pending fees against holding the initial deposit.
+ * Returns null if the pool's coin types aren't known tokens.
+ */
+export function valuePosition(
+  position: LPPosition,
+  pool: PoolState,
+  prices: TokenPrices
+): PositionValuation | null {
+  const summary = toPoolSummary(pool);
+  if (!summary) return null;
+  const { tokenA, tokenB } = summary;
+
+  const { amountA: currentAmountA, amountB: currentAmountB } = calculateRemoveLiquidityAmounts(
+    position.lpTokens,
+    pool.reserveA,
+    pool.reserveB,
+    pool.totalSupply
+  );
+
+  const { feesA: pendingFeesA, feesB: pendingFeesB } = calculatePendingFees(position, pool);
+
+  const valueUsd = getPairUsdValue(prices, tokenA, currentAmountA, tokenB, currentAmountB);
+  const feesUsd = getPairUsdValue(prices, tokenA, pendingFeesA, tokenB, pendingFeesB);
+  const hodlValueUsd = getPairUsdValue(prices, tokenA, position.initialAmountA, tokenB, position.initialAmountB);
+
+  const pnlUsd = valueUsd + feesUsd - hodlValueUsd;
+  const pnlPercent = hodlValueUsd > 0 ? (pnlUsd / hodlValueUsd) * 100 : 0;
+
+  const ilBps = calculateImpermanentLoss(getPositionPriceRatio(position, pool));
+
+  return {
+    tokenA,
+    tokenB,
+    currentAmountA,
+    currentAmountB,
+    valueUsd,
+    pendingFeesA,
+    pendingFeesB,
+    feesUsd,
+    hodlValueUsd,
+    pnlUsd,
+    pnlPercent,
+    ilPercent: -ilBps / 100,
+  };
+}
@@ -0,0 +1,72 @@
+import { DEMO_TOKENS, TokenSymbol } from "./constants";
+import type { RoutablePool } from "./router";
+
+/** Tokens pinned at $1 that every other price is derived from */
+export const USD_ANCHORS: readonly TokenSymbol[] = ["USDC", "USDT"];
+
+export type TokenPrices = Partial<Record<TokenSymbol, number>>;
+
+/** Reserve in whole tokens */
+function toUnits(symbol: TokenSymbol, amount: bigint): number {
+  return Number(amount) / Math.pow(10, DEMO_TOKENS[symbol].decimals);
+}
+
+/**
+ * Derive USD prices for every token connected to a stablecoin through the pool graph.
+ * Starting from the $1 anchors, each step prices one new token through the pool whose
+ * already-priced side holds the most USD, so prices always come from the deepest
+ * liquidity available. Tokens with no path to an anchor are left out.
+ */
+export function derivePrices(pools: RoutablePool[]): TokenPrices {
+  const prices: TokenPrices = {};
+  for (const anchor of USD_ANCHORS) {
+    prices[anchor] = 1;
+  }
+
+  const liquidPools = pools.filter((pool) => pool.reserveA > 0n && pool.reserveB > 0n);
+
+  while (true) {
+    let best: { symbol: TokenSymbol; price: number; depthUsd: number } | null = null;
+
+    for (const pool of liquidPools) {
+      const priceA = prices[pool.tokenA];
+      const priceB = prices[pool.tokenB];
+      if ((priceA === undefined) === (priceB === undefined)) continue;
+
+      const [known, unknown, knownReserve, unknownReserve, knownPrice] =
+        priceA !== undefined
+          ? [pool.tokenA, pool.tokenB, pool.reserveA, pool.reserveB, priceA]
+          : [pool.tokenB, pool.tokenA, pool.reserveB, pool.reserveA, priceB as number];
+
+      const depthUsd = toUnits(known, knownReserve) * knownPrice;
+      if (!best || depthUsd > best.depthUsd) {
+        best = { symbol: unknown, price: depthUsd / toUnits(unknown, unknownReserve), depthUsd };
+      }
+    }
+
+    if (!best) break;
+    prices[best.symbol] = best.price;
+  }
+
+  return prices;
+}
+
+/**
+ * USD value of a raw token amount, or 0 if the token has no price
+ */
+export function getUsdValue(prices: TokenPrices, symbol: TokenSymbol, amount: bigint): number {
+  return toUnits(symbol, amount) * (prices[symbol] ?? 0);
+}
+
+/**
+ * USD value of a token A/B amount pair, e.g. pool reserves or a position's underlying
+ */
+export function getPairUsdValue(
+  prices: TokenPrices,
+  tokenA: TokenSymbol,
+  amountA: bigint,
+  tokenB: TokenSymbol,
+  amountB: bigint
+): number {
+  return getUsdValue(prices, tokenA, amountA) + getUsdValue(prices, tokenB, amountB);
+}
@@ -1,59 +1,44 @@
+import { useCallback, useMemo } from "react";
 import { useSuiClient, useCurrentAccount } from "@mysten/dapp-kit";
-import { useQuery } from "@tanstack/react-query";
-import { 
-  PACKAGE_ID, 
-  POOL_FACTORY_ID, 
-  LP_POSITION_NFT_TYPE,
-  DEMO_TOKENS,
-  TokenSymbol,
-  TREASURY_CAP_TYPES,
-} from "./constants";
+import type { SuiClient } from "@mysten/sui/client";
+import { useQueries, useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query";
+import { DEMO_TOKENS, TokenSymbol } from "./constants";
+import { AmmClient, type PoolState, type PoolSummary } from "./client";
+import { aggregateSwapStats, PoolAnalytics, WEEK_MS } from "./analytics";
+import { derivePrices } from "./pricing";
+import { isPoolEmittedSwap, type AmmEventName } from "./events";
+
+/** One AmmClient per SuiClient, so every component shares its pool discovery cursors and ID caches */
+const ammClients = new WeakMap<SuiClient, AmmClient>();
+
+/**
+ * Hook to get the AmmClient bound to the current Sui client
+ */
+export function useAmmClient() {
+  const client = useSuiClient();
+
+  return useMemo(() => {
+    let amm = ammClients.get(client);
+    if (!amm) {
+      amm = new AmmClient(client);
+      ammClients.set(client, amm);
+    }
+    return amm;
+  }, [client]);
+}
 
 /**
  * Hook to fetch user's coin balances for demo tokens
  */
 export function useTokenBalances() {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   const account = useCurrentAccount();
   
   return useQuery({
     queryKey: ["tokenBalances", account?.address],
     queryFn: async () => {
       if (!account?.address) return null;
-      
-      const balances: Record<TokenSymbol, { balance: bigint; objects: string[] }> = {
-        USDC: { balance: 0n, objects: [] },
-        USDT: { balance: 0n, objects: [] },
-        ETH: { balance: 0n, objects: [] },
-        BTC: { balance: 0n, objects: [] },
-        WSUI: { balance: 0n, objects: [] },
-      };
-      
-      for (const [symbol, token] of Object.entries(DEMO_TOKENS)) {
-        try {
-          const coins = await client.getCoins({
-            owner: account.address,
-            coinType: token.type,
-          });
-          
-          let totalBalance = 0n;
-          const objectIds: string[] = [];
-          
-          for (const coin of coins.data) {
-            totalBalance += BigInt(coin.balance);
-            objectIds.push(coin.coinObjectId);
-          }
-          
-          balances[symbol as TokenSymbol] = {
-            balance: totalBalance,
-            objects: objectIds,
-          };
-        } catch (error) {
-          console.error(`Error fetching ${symbol} balance:`, error);
-        }
-      }
-      
-      return balances;
+      return amm.getTokenBalances(account.address);
     },
     enabled: !!account?.address,
     refetchInterval: 10000, // Refetch every 10 seconds
@@ -64,77 +49,75 @@ export function useTokenBalances() {
  * Hook to fetch user's LP Position NFTs
  */
 export function useLPPositions() {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   const account = useCurrentAccount();
   
   return useQuery({
     queryKey: ["lpPositions", account?.address],
     queryFn: async () => {
       if (!account?.address) return [];
-      
-      const objects = await client.getOwnedObjects({
-        owner: account.address,
-        filter: {
-          StructType: LP_POSITION_NFT_TYPE,
-        },
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-      
-      return objects.data.map((obj) => {
-        const content = obj.data?.content;
-        if (content?.dataType !== "moveObject") return null;
-        
-        const fields = content.fields as Record<string, unknown>;
-        
-        return {
-          id: obj.data?.objectId,
-          poolId: fields.pool_id as string,
-          lpTokens: BigInt(fields.lp_tokens as string),
-          initialAmountA: BigInt(fields.initial_amount_a as string),
-          initialAmountB: BigInt(fields.initial_amount_b as string),
-          feesEarnedA: BigInt(fields.fees_earned_a as string || "0"),
-          feesEarnedB: BigInt(fields.fees_earned_b as string || "0"),
-          createdAt: Number(fields.created_at as string),
-        };
-      }).filter(Boolean);
+      return amm.getPositions(account.address);
     },
     enabled: !!account?.address,
     refetchInterval: 15000,
   });
 }
 
+/**
+ * Hook to read a position's claimable fees on-chain (devInspect), used to
+ * cross-check the client-side pending fee calculation.
+ * Stable pool positions are skipped: calculate_claimable_fees only takes a LiquidityPool.
+ */
+export function useClaimableFees(positionId: string | undefined, pool: PoolState | undefined) {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+  const isSupported = !!pool && !pool.stable;
+
+  return useQuery({
+    queryKey: ["claimableFees", positionId, pool?.feeGrowthGlobalA.toString(), pool?.feeGrowthGlobalB.toString()],
+    queryFn: async () => {
+      if (!account?.address || !positionId || !pool || !isSupported) return null;
+      return amm.getClaimableFees(account.address, positionId, pool);
+    },
+    enabled: !!account?.address && !!positionId && isSupported,
+  });
+}
+
 /**
  * Hook to fetch the Pool Factory object
  */
 export function usePoolFactory() {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   
   return useQuery({
     queryKey: ["poolFactory"],
-    queryFn: async () => {
-      const object = await client.getObject({
-        id: POOL_FACTORY_ID,
-        options: {
-          showContent: true,
-        },
-      });
-      
-      if (object.data?.content?.dataType !== "moveObject") {
-        return null;
-      }
-      
-      const fields = object.data.content.fields as Record<string, unknown>;
-      
-      return {
-        id: POOL_FACTORY_ID,
-        totalPools: Number(fields.total_pools as string || "0"),
-        creationPaused: fields.creation_paused as boolean,
-        protocolFeeRecipient: fields.protocol_fee_recipient as string,
-      };
-    },
+    queryFn: () => amm.getPoolFactory(),
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Hook to fetch the FeeDistributor object
+ */
+export function useFeeDistributor() {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["feeDistributor"],
+    queryFn: () => amm.getFeeDistributor(),
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Hook to fetch every PoolFeeAccumulator
+ */
+export function useFeeAccumulators() {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["feeAccumulators"],
+    queryFn: () => amm.getFeeAccumulators(),
     refetchInterval: 30000,
   });
 }
@@ -143,165 +126,197 @@ export function usePoolFactory() {
  * Hook to fetch a specific liquidity pool
  */
 export function usePool(poolId: string | undefined) {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   
   return useQuery({
     queryKey: ["pool", poolId],
     queryFn: async () => {
       if (!poolId) return null;
-      
-      const object = await client.getObject({
-        id: poolId,
-        options: {
-          showContent: true,
-          showType: true,
-        },
-      });
-      
-      if (object.data?.content?.dataType !== "moveObject") {
-        return null;
-      }
-      
-      const fields = object.data.content.fields as Record<string, unknown>;
-      const type = object.data.content.type;
-      
-      // Extract token types from the pool type
-      // e.g., "0x...::pool_factory::LiquidityPool<0x...::demo_tokens::DEMO_USDC, 0x...::demo_tokens::DEMO_ETH>"
-      const typeMatch = type.match(/<(.+),\s*(.+)>/);
-      const coinAType = typeMatch?.[1] || "";
-      const coinBType = typeMatch?.[2] || "";
-      
-      return {
-        id: poolId,
-        type,
-        coinAType,
-        coinBType,
-        reserveA: BigInt((fields.reserve_a as { fields?: { value?: string } })?.fields?.value || "0"),
-        reserveB: BigInt((fields.reserve_b as { fields?: { value?: string } })?.fields?.value || "0"),
-        feeTier: Number(fields.fee_tier as string || "30"),
-        totalSupply: BigInt(fields.total_supply as string || "0"),
-        isPaused: fields.is_paused as boolean,
-        feeGrowthGlobalA: BigInt(fields.fee_growth_global_a as string || "0"),
-        feeGrowthGlobalB: BigInt(fields.fee_growth_global_b as string || "0"),
-      };
+      return amm.getPool(poolId);
     },
     enabled: !!poolId,
     refetchInterval: 10000,
   });
 }
 
+function combinePools(results: UseQueryResult<PoolState | null>[]) {
+  return {
+    data: results.flatMap((result) => (result.data ? [result.data] : [])),
+    isLoading: results.some((result) => result.isLoading),
+  };
+}
+
+/**
+ * Hook to fetch a StableSwapPool with its amplification ramp and cached invariant
+ */
+export function useStablePool(poolId: string | undefined) {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["stablePool", poolId],
+    queryFn: async () => {
+      if (!poolId) return null;
+      return amm.getStablePool(poolId);
+    },
+    enabled: !!poolId,
+    refetchInterval: 10000,
+  });
+}
+
+/**
+ * Hook to fetch several pools at once, sharing the usePool cache entries
+ */
+export function usePools(poolIds: string[]) {
+  const amm = useAmmClient();
+
+  return useQueries({
+    queries: poolIds.map((poolId) => ({
+      queryKey: ["pool", poolId],
+      queryFn: () => amm.getPool(poolId),
+      refetchInterval: 10000,
+    })),
+    combine: combinePools,
+  });
+}
+
 /**
  * Hook to find treasury caps owned by a specific address
  */
 export function useTreasuryCaps() {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   const account = useCurrentAccount();
   
   return useQuery({
     queryKey: ["treasuryCaps", account?.address],
     queryFn: async () => {
       if (!account?.address) return null;
-      
-      const caps: Partial<Record<TokenSymbol, string>> = {};
-      
-      for (const [symbol, capType] of Object.entries(TREASURY_CAP_TYPES)) {
-        try {
-          const objects = await client.getOwnedObjects({
-            owner: account.address,
-            filter: {
-              StructType: capType,
-            },
-          });
-          
-          if (objects.data.length > 0) {
-            caps[symbol as TokenSymbol] = objects.data[0].data?.objectId;
-          }
-        } catch (error) {
-          console.error(`Error fetching ${symbol} treasury cap:`, error);
-        }
-      }
-      
-      return caps;
+      return amm.getTreasuryCaps(account.address);
     },
     enabled: !!account?.address,
     staleTime: 60000, // Cache for 1 minute
   });
 }
 
+/**
+ * Hook to fetch the connected wallet's UserSlippageSettings, or null if it has none yet
+ */
+export function useUserSlippageSettings() {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+
+  return useQuery({
+    queryKey: ["userSlippageSettings", account?.address],
+    queryFn: async () => {
+      if (!account?.address) return null;
+      return amm.getUserSlippageSettings(account.address);
+    },
+    enabled: !!account?.address,
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Hook to fetch the connected wallet's PriceLimitOrders
+ */
+export function usePriceLimitOrders() {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+
+  return useQuery({
+    queryKey: ["priceLimitOrders", account?.address],
+    queryFn: async () => {
+      if (!account?.address) return [];
+      return amm.getPriceLimitOrders(account.address);
+    },
+    enabled: !!account?.address,
+    refetchInterval: 15000,
+  });
+}
+
+/**
+ * Hook to find the PoolFactoryAdminCap owned by the connected wallet
+ */
+export function usePoolFactoryAdminCap() {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+
+  return useQuery({
+    queryKey: ["poolFactoryAdminCap", account?.address],
+    queryFn: async () => {
+      if (!account?.address) return null;
+      return amm.getPoolFactoryAdminCap(account.address);
+    },
+    enabled: !!account?.address,
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Hook to read the uncollected protocol fees of constant product pools, keyed by pool ID
+ */
+export function useProtocolFees(pools: PoolSummary[]) {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+  const factoryPools = pools.filter((pool) => !pool.stable);
+
+  return useQuery({
+    queryKey: ["protocolFees", factoryPools.map((pool) => pool.id)],
+    queryFn: async () => {
+      if (!account?.address) return {};
+      return amm.getProtocolFees(account.address, factoryPools);
+    },
+    enabled: !!account?.address && factoryPools.length > 0,
+    refetchInterval: 15000,
+  });
+}
+
+/**
+ * Hook to find the FeeDistributorAdminCap owned by the connected wallet
+ */
+export function useFeeDistributorAdminCap() {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+
+  return useQuery({
+    queryKey: ["feeDistributorAdminCap", account?.address],
+    queryFn: async () => {
+      if (!account?.address) return null;
+      return amm.getFeeDistributorAdminCap(account.address);
+    },
+    enabled: !!account?.address,
+    staleTime: 60000,
+  });
+}
+
+/**
+ * Hook to find the StableSwapAdminCap owned by the connected wallet
+ */
+export function useStableSwapAdminCap() {
+  const amm = useAmmClient();
+  const account = useCurrentAccount();
+
+  return useQuery({
+    queryKey: ["stableSwapAdminCap", account?.address],
+    queryFn: async () => {
+      if (!account?.address) return null;
+      return amm.getStableSwapAdminCap(account.address);
+    },
+    enabled: !!account?.address,
+    staleTime: 60000,
+  });
+}
+
 /**
  * Hook to fetch all liquidity pools from the blockchain
  */
 export function useAllPools() {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   
   return useQuery({
     queryKey: ["allPools"],
     queryFn: async () => {
       try {
-        // Query for all LiquidityPool objects owned by anyone (shared objects)
-        const poolType = `${PACKAGE_ID}::pool_factory::LiquidityPool`;
-        
-        const objects = await client.queryEvents({
-          query: {
-            MoveEventType: `${PACKAGE_ID}::events::PoolCreated`,
-          },
-          limit: 50,
-          order: "descending",
-        });
-        
-        const pools: Array<{
-          id: string;
-          tokenA: TokenSymbol;
-          tokenB: TokenSymbol;
-          reserveA: bigint;
-          reserveB: bigint;
-          feeTier: number;
-          totalSupply: bigint;
-        }> = [];
-        
-        for (const event of objects.data) {
-          const parsed = event.parsedJson as Record<string, unknown>;
-          const poolId = parsed.pool_id as string;
-          
-          if (poolId) {
-            try {
-              const poolObj = await client.getObject({
-                id: poolId,
-                options: { showContent: true, showType: true },
-              });
-              
-              if (poolObj.data?.content?.dataType === "moveObject") {
-                const fields = poolObj.data.content.fields as Record<string, unknown>;
-                const type = poolObj.data.content.type;
-                
-                // Extract token types
-                const typeMatch = type.match(/<(.+),\s*(.+)>/);
-                const coinAType = typeMatch?.[1] || "";
-                const coinBType = typeMatch?.[2] || "";
-                
-                // Map type to symbol
-                const tokenA = Object.entries(DEMO_TOKENS).find(([, t]) => coinAType.includes(t.type.split("::").pop() || ""))?.[0] as TokenSymbol;
-                const tokenB = Object.entries(DEMO_TOKENS).find(([, t]) => coinBType.includes(t.type.split("::").pop() || ""))?.[0] as TokenSymbol;
-                
-                if (tokenA && tokenB) {
-                  pools.push({
-                    id: poolId,
-                    tokenA,
-                    tokenB,
-                    reserveA: BigInt((fields.reserve_a as { fields?: { value?: string } })?.fields?.value || "0"),
-                    reserveB: BigInt((fields.reserve_b as { fields?: { value?: string } })?.fields?.value || "0"),
-                    feeTier: Number(fields.fee_tier || "30"),
-                    totalSupply: BigInt(fields.total_supply as string || "0"),
-                  });
-                }
-              }
-            } catch (e) {
-              console.error(`Error fetching pool ${poolId}:`, e);
-            }
-          }
-        }
-        
-        return pools;
+        return await amm.listPools();
       } catch (error) {
         console.error("Error fetching pools:", error);
         return [];
@@ -311,33 +326,50 @@ export function useAllPools() {
   });
 }
 
+/**
+ * Hook to get USD prices derived from the on-chain pool graph
+ */
+export function usePrices() {
+  const { data: pools, isLoading } = useAllPools();
+  const prices = useMemo(() => derivePrices(pools ?? []), [pools]);
+
+  return { data: prices, isLoading };
+}
+
+/**
+ * Hook to fetch rolling 24h/7d swap volume and fees per pool,
+ * counting only swaps emitted by this package's pool modules
+ */
+export function usePoolAnalytics() {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["poolAnalytics"],
+    queryFn: async () => {
+      try {
+        const now = Date.now();
+        const swaps = await amm.getEventsSince("SwapExecuted", now - WEEK_MS);
+        return aggregateSwapStats(swaps.filter((swap) => isPoolEmittedSwap(swap, amm.deployment.packageId)), now);
+      } catch (error) {
+        console.error("Error fetching pool analytics:", error);
+        return new Map<string, PoolAnalytics>();
+      }
+    },
+    refetchInterval: 60000,
+  });
+}
+
 /**
  * Hook to fetch events from the package
  */
 export function useRecentEvents(limit: number = 20) {
-  const client = useSuiClient();
+  const amm = useAmmClient();
   
   return useQuery({
     queryKey: ["recentEvents", limit],
     queryFn: async () => {
       try {
-        const events = await client.queryEvents({
-          query: {
-            MoveModule: {
-              package: PACKAGE_ID,
-              module: "events",
-            },
-          },
-          limit,
-          order: "descending",
-        });
-        
-        return events.data.map((event) => ({
-          id: event.id.txDigest,
-          type: event.type.split("::").pop() || "Unknown",
-          timestamp: Number(event.timestampMs || Date.now()),
-          parsedJson: event.parsedJson as Record<string, unknown>,
-        }));
+        return await amm.getRecentEvents(limit);
       } catch (error) {
         console.error("Error fetching events:", error);
         return [];
@@ -347,6 +379,48 @@ export function useRecentEvents(limit: number = 20) {
   });
 }
 
+/**
+ * Hook to fetch the full history of one event kind, newest first.
+ * Polls only read events emitted since the previous one.
+ */
+export function useEventHistory<N extends AmmEventName>(name: N) {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["eventHistory", name],
+    queryFn: () => amm.getEventHistory(name),
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Hook to fetch the compound and transfer history of one position
+ */
+export function usePositionHistory(positionId: string | undefined) {
+  const amm = useAmmClient();
+
+  return useQuery({
+    queryKey: ["positionHistory", positionId],
+    queryFn: () => amm.getPositionHistory(positionId!),
+    enabled: !!positionId,
+    refetchInterval: 30000,
+  });
+}
+
+/**
+ * Hook returning a callback that refetches everything a liquidity transaction changes:
+ * wallet balances, positions, claimable fees and pool state
+ */
+export function useRefreshPositions() {
+  const queryClient = useQueryClient();
+
+  return useCallback(() => {
+    for (const queryKey of [["tokenBalances"], ["lpPositions"], ["claimableFees"], ["pool"], ["stablePool"], ["allPools"], ["positionHistory"]]) {
+      queryClient.invalidateQueries({ queryKey });
+    }
+  }, [queryClient]);
+}
+
 /**
  * Get token info from type string
  */
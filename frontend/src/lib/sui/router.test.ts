@@ -0,0 +1,150 @@
+import { describe, expect, it } from "vitest";
+import type { TokenSymbol } from "./constants";
+import {
+  findBestRoute,
+  findBestRouteExactOut,
+  findBestSplit,
+  findPaths,
+  quotePath,
+  quotePathExactOut,
+  type RoutablePool,
+} from "./router";
+
+// Leg outputs are math::calculate_output_amount for each leg's share of the input
+
+function pool(id: string, reserve: bigint, feeTier: number): RoutablePool {
+  return { id, tokenA: "USDC", tokenB: "USDT", reserveA: reserve, reserveB: reserve, feeTier };
+}
+
+function pair(id: string, tokenA: TokenSymbol, tokenB: TokenSymbol, reserveA: bigint, reserveB: bigint, feeTier = 5): RoutablePool {
+  return { id, tokenA, tokenB, reserveA, reserveB, feeTier };
+}
+
+const graph = [
+  pair("usdc-usdt", "USDC", "USDT", 10n ** 12n, 10n ** 12n),
+  pair("usdt-wsui", "USDT", "WSUI", 10n ** 12n, 5n * 10n ** 11n),
+  pair("usdc-wsui", "USDC", "WSUI", 10n ** 12n, 4n * 10n ** 11n, 30),
+  pair("wsui-btc", "WSUI", "BTC", 10n ** 12n, 10n ** 8n),
+  pair("empty", "USDC", "BTC", 0n, 0n),
+];
+
+const stableParams = { amplification: 100, futureAmplification: 100, rampStartTime: 0, rampEndTime: 0, dLast: 0n };
+
+const ids = (paths: RoutablePool[][]) => paths.map((path) => path.map((p) => p.id));
+
+describe("findPaths", () => {
+  it("walks every simple path depth first, skipping empty pools", () => {
+    expect(ids(findPaths(graph, "USDC", "WSUI"))).toEqual([["usdc-usdt", "usdt-wsui"], ["usdc-wsui"]]);
+    expect(ids(findPaths(graph, "USDC", "BTC"))).toEqual([
+      ["usdc-usdt", "usdt-wsui", "wsui-btc"],
+      ["usdc-wsui", "wsui-btc"],
+    ]);
+  });
+
+  it("stops at maxHops", () => {
+    expect(ids(findPaths(graph, "USDC", "WSUI", 1))).toEqual([["usdc-wsui"]]);
+    expect(ids(findPaths(graph, "USDC", "BTC", 2))).toEqual([["usdc-wsui", "wsui-btc"]]);
+  });
+
+  it("finds nothing for the same token", () => {
+    expect(findPaths(graph, "USDC", "USDC")).toEqual([]);
+  });
+});
+
+describe("quotePath", () => {
+  it("feeds each hop's calculate_output_amount into the next", () => {
+    const route = quotePath([graph[0], graph[1]], "USDC", 1_000_000000n);
+
+    expect(route.hops.map((hop) => [hop.tokenIn, hop.tokenOut, hop.isAToB, hop.amountIn, hop.amountOut])).toEqual([
+      ["USDC", "USDT", true, 1_000_000000n, 998501997n],
+      ["USDT", "WSUI", true, 998501997n, 498503864n],
+    ]);
+    expect(route.tokenOut).toBe("WSUI");
+    expect(route.amountOut).toBe(498503864n);
+  });
+
+  it("prefers the two-hop route when it returns more", () => {
+    expect(findBestRoute(graph, "USDC", "WSUI", 1_000_000000n)?.hops.map((hop) => hop.pool.id))
+      .toEqual(["usdc-usdt", "usdt-wsui"]);
+    expect(quotePath([graph[2]], "USDC", 1_000_000000n).amountOut).toBe(398402792n);
+  });
+});
+
+describe("findBestSplit", () => {
+  it("spreads a large order across fee tiers", () => {
+    const split = findBestSplit([pool("low", 10n ** 12n, 5), pool("medium", 10n ** 12n, 30)], "USDC", "USDT", 10n ** 11n);
+
+    expect(split?.legs.map((leg) => [leg.hops[0].pool.id, leg.amountIn, leg.amountOut])).toEqual([
+      ["low", 50_000_000000n, 47596371342n],
+      ["medium", 50_000_000000n, 47482973758n],
+    ]);
+    expect(split?.amountIn).toBe(10n ** 11n);
+    expect(split?.amountOut).toBe(95079345100n);
+  });
+
+  it("weights legs by pool depth, largest leg first", () => {
+    const split = findBestSplit([pool("shallow", 10n ** 12n, 5), pool("deep", 4n * 10n ** 12n, 30)], "USDC", "USDT", 2n * 10n ** 11n);
+
+    expect(split?.legs.map((leg) => [leg.hops[0].pool.id, leg.amountIn, leg.amountOut])).toEqual([
+      ["deep", 160_000_000000n, 153402315651n],
+      ["shallow", 40_000_000000n, 38443046981n],
+    ]);
+    expect(split?.amountOut).toBe(191845362632n);
+  });
+
+  it("keeps a small order in the cheapest pool", () => {
+    const split = findBestSplit([pool("low", 10n ** 12n, 5), pool("medium", 10n ** 12n, 30)], "USDC", "USDT", 1_000_000000n);
+
+    expect(split?.legs).toHaveLength(1);
+    expect(split?.legs[0].hops[0].pool.id).toBe("low");
+    expect(split?.amountOut).toBe(998501997n);
+  });
+
+  it("returns null without a pool for the pair or an amount", () => {
+    expect(findBestSplit([pool("low", 10n ** 12n, 5)], "USDC", "ETH", 1000n)).toBeNull();
+    expect(findBestSplit([pool("low", 10n ** 12n, 5)], "USDC", "USDT", 0n)).toBeNull();
+  });
+});
+
+describe("findBestRoute", () => {
+  it("skips stable pools whose math aborts on-chain", () => {
+    const stable: RoutablePool = {
+      ...pool("stable", 10n ** 12n, 5),
+      stable: stableParams,
+    };
+
+    expect(findBestRoute([stable, pool("medium", 10n ** 12n, 30)], "USDC", "USDT", 1_000000n)?.hops[0].pool.id).toBe("medium");
+    expect(findBestRoute([stable], "USDC", "USDT", 1_000000n)).toBeNull();
+  });
+});
+
+describe("quotePathExactOut", () => {
+  it("sizes each hop backwards with calculate_input_amount", () => {
+    const route = quotePathExactOut([graph[0], graph[1]], "USDC", 500_000000n);
+
+    expect(route?.hops.map((hop) => [hop.tokenIn, hop.tokenOut, hop.amountIn, hop.amountOut])).toEqual([
+      ["USDC", "USDT", 1003007267n, 1001501752n],
+      ["USDT", "WSUI", 1001501752n, 500_000000n],
+    ]);
+    expect(route?.amountIn).toBe(1003007267n);
+    expect(route?.amountOut).toBe(500_000000n);
+  });
+
+  it("returns null when a hop can't produce the amount or crosses a stable pool", () => {
+    expect(quotePathExactOut([graph[0]], "USDC", 10n ** 12n)).toBeNull();
+    expect(quotePathExactOut([{ ...graph[0], stable: stableParams }], "USDC", 1000n)).toBeNull();
+  });
+});
+
+describe("findBestRouteExactOut", () => {
+  it("picks the route needing the least input", () => {
+    const route = findBestRouteExactOut(graph, "USDC", "WSUI", 500_000000n);
+
+    expect(route?.hops.map((hop) => hop.pool.id)).toEqual(["usdc-usdt", "usdt-wsui"]);
+    expect(quotePathExactOut([graph[2]], "USDC", 500_000000n)?.amountIn).toBe(1255330447n);
+  });
+
+  it("returns null when no route can fill the amount", () => {
+    expect(findBestRouteExactOut(graph, "USDC", "WSUI", 10n ** 12n)).toBeNull();
+  });
+});
@@ -0,0 +1,397 @@
+import { TokenSymbol } from "./constants";
+import { calculateSwapOutput, calculateSwapInput, calculatePriceImpact } from "./transactions";
+import { calculateStablePriceImpact, calculateStableSwapOutput, getCurrentAmplification } from "./stable-swap";
+import type { PoolSummary } from "./client";
+
+/** Longest path the router will search */
+export const MAX_ROUTE_HOPS = 3;
+
+/** Number of chunks an order is cut into when splitting it across pools */
+export const SPLIT_STEPS = 20;
+
+/**
+ * The parts of a pool the router needs to walk the graph and quote hops
+ */
+export type RoutablePool = Pick<PoolSummary, "id" | "tokenA" | "tokenB" | "reserveA" | "reserveB" | "feeTier" | "stable">;
+
+export interface RouteHop<P extends RoutablePool = RoutablePool> {
+  pool: P;
+  tokenIn: TokenSymbol;
+  tokenOut: TokenSymbol;
+  isAToB: boolean;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Price impact of this hop in basis points */
+  priceImpactBps: number;
+}
+
+export interface SwapRoute<P extends RoutablePool = RoutablePool> {
+  hops: RouteHop<P>[];
+  tokenIn: TokenSymbol;
+  tokenOut: TokenSymbol;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Compounded price impact across all hops in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * One order spread over several routes that all run in the same PTB
+ */
+export interface SplitRoute<P extends RoutablePool = RoutablePool> {
+  /** Legs ordered by input, largest first */
+  legs: SwapRoute<P>[];
+  tokenIn: TokenSymbol;
+  tokenOut: TokenSymbol;
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Input-weighted price impact across legs in basis points */
+  priceImpactBps: number;
+}
+
+/**
+ * Output of swapping `amountIn` through one pool, on the StableSwap curve for stable pools
+ */
+function quoteHopOutput(pool: RoutablePool, isAToB: boolean, amountIn: bigint): bigint {
+  const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+  const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+
+  return pool.stable
+    ? calculateStableSwapOutput(amountIn, reserveIn, reserveOut, getCurrentAmplification(pool.stable), pool.feeTier)
+    : calculateSwapOutput(amountIn, reserveIn, reserveOut, pool.feeTier);
+}
+
+/**
+ * Price impact in basis points of swapping `amountIn` through one pool
+ */
+function quoteHopPriceImpact(pool: RoutablePool, isAToB: boolean, amountIn: bigint): number {
+  const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+  const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+
+  return pool.stable
+    ? calculateStablePriceImpact(amountIn, reserveIn, reserveOut, getCurrentAmplification(pool.stable), pool.feeTier)
+    : calculatePriceImpact(amountIn, reserveIn, reserveOut, pool.feeTier);
+}
+
+/**
+ * Build an adjacency list of token -> pools containing that token
+ */
+export function buildTokenGraph<P extends RoutablePool>(pools: P[]): Map<TokenSymbol, P[]> {
+  const graph = new Map<TokenSymbol, P[]>();
+
+  for (const pool of pools) {
+    if (pool.reserveA === 0n || pool.reserveB === 0n) continue;
+
+    for (const token of [pool.tokenA, pool.tokenB]) {
+      const edges = graph.get(token) ?? [];
+      edges.push(pool);
+      graph.set(token, edges);
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Enumerate every simple path from `tokenIn` to `tokenOut` of at most `maxHops` pools
+ */
+export function findPaths<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  maxHops: number = MAX_ROUTE_HOPS
+): P[][] {
+  const graph = buildTokenGraph(pools);
+  const paths: P[][] = [];
+
+  const visit = (token: TokenSymbol, path: P[], visited: Set<TokenSymbol>) => {
+    if (path.length >= maxHops) return;
+
+    for (const pool of graph.get(token) ?? []) {
+      const next = pool.tokenA === token ? pool.tokenB : pool.tokenA;
+      if (visited.has(next)) continue;
+
+      const nextPath = [...path, pool];
+      if (next === tokenOut) {
+        paths.push(nextPath);
+        continue;
+      }
+
+      visited.add(next);
+      visit(next, nextPath, visited);
+      visited.delete(next);
+    }
+  };
+
+  if (tokenIn !== tokenOut) {
+    visit(tokenIn, [], new Set([tokenIn]));
+  }
+
+  return paths;
+}
+
+/**
+ * Quote `amountIn` along a path of pools, feeding each hop's output into the next
+ */
+export function quotePath<P extends RoutablePool>(
+  path: P[],
+  tokenIn: TokenSymbol,
+  amountIn: bigint
+): SwapRoute<P> {
+  const hops: RouteHop<P>[] = [];
+  let token = tokenIn;
+  let amount = amountIn;
+  let remainingBps = 10000;
+
+  for (const pool of path) {
+    const isAToB = pool.tokenA === token;
+    const tokenOut = isAToB ? pool.tokenB : pool.tokenA;
+
+    const amountOut = quoteHopOutput(pool, isAToB, amount);
+    const priceImpactBps = quoteHopPriceImpact(pool, isAToB, amount);
+
+    hops.push({ pool, tokenIn: token, tokenOut, isAToB, amountIn: amount, amountOut, priceImpactBps });
+
+    remainingBps = (remainingBps * (10000 - priceImpactBps)) / 10000;
+    token = tokenOut;
+    amount = amountOut;
+  }
+
+  return {
+    hops,
+    tokenIn,
+    tokenOut: token,
+    amountIn,
+    amountOut: amount,
+    priceImpactBps: Math.round(10000 - remainingBps),
+  };
+}
+
+/**
+ * Quote a path backwards from the exact `amountOut` wanted at its end.
+ * Returns null if any hop can't produce the amount the next hop needs, or if the
+ * path crosses a stable pool (exact-output swaps size their input with the
+ * constant-product math::calculate_input_amount on-chain).
+ */
+export function quotePathExactOut<P extends RoutablePool>(
+  path: P[],
+  tokenIn: TokenSymbol,
+  amountOut: bigint
+): SwapRoute<P> | null {
+  if (path.some((pool) => pool.stable)) return null;
+
+  // Walk forwards once to learn each hop's direction
+  const directions: { pool: P; tokenIn: TokenSymbol; tokenOut: TokenSymbol; isAToB: boolean }[] = [];
+  let token = tokenIn;
+  for (const pool of path) {
+    const isAToB = pool.tokenA === token;
+    const tokenOut = isAToB ? pool.tokenB : pool.tokenA;
+    directions.push({ pool, tokenIn: token, tokenOut, isAToB });
+    token = tokenOut;
+  }
+
+  const hops: RouteHop<P>[] = [];
+  let amount = amountOut;
+
+  for (const { pool, tokenIn: hopTokenIn, tokenOut, isAToB } of [...directions].reverse()) {
+    const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+    const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+
+    const amountIn = calculateSwapInput(amount, reserveIn, reserveOut, pool.feeTier);
+    if (amountIn === 0n) return null;
+
+    const priceImpactBps = calculatePriceImpact(amountIn, reserveIn, reserveOut, pool.feeTier);
+    hops.unshift({ pool, tokenIn: hopTokenIn, tokenOut, isAToB, amountIn, amountOut: amount, priceImpactBps });
+
+    amount = amountIn;
+  }
+
+  const remainingBps = hops.reduce((remaining, hop) => (remaining * (10000 - hop.priceImpactBps)) / 10000, 10000);
+
+  return {
+    hops,
+    tokenIn,
+    tokenOut: token,
+    amountIn: amount,
+    amountOut,
+    priceImpactBps: Math.round(10000 - remainingBps),
+  };
+}
+
+/**
+ * Quote every path between two tokens, best output first (fewer hops breaks ties).
+ * Paths that output nothing are dropped, e.g. through a stable pool whose math aborts on-chain.
+ */
+export function findRoutes<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  amountIn: bigint,
+  maxHops: number = MAX_ROUTE_HOPS
+): SwapRoute<P>[] {
+  return findPaths(pools, tokenIn, tokenOut, maxHops)
+    .map((path) => quotePath(path, tokenIn, amountIn))
+    .filter((route) => route.amountOut > 0n)
+    .sort((a, b) => {
+      if (a.amountOut !== b.amountOut) return a.amountOut > b.amountOut ? -1 : 1;
+      return a.hops.length - b.hops.length;
+    });
+}
+
+/**
+ * Find the route with the highest output, or null if no connected route outputs anything
+ */
+export function findBestRoute<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  amountIn: bigint,
+  maxHops: number = MAX_ROUTE_HOPS
+): SwapRoute<P> | null {
+  return findRoutes(pools, tokenIn, tokenOut, amountIn, maxHops)[0] ?? null;
+}
+
+/**
+ * Find the route that needs the least input to receive exactly `amountOut`,
+ * or null if no connected route can fill it
+ */
+export function findBestRouteExactOut<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  amountOut: bigint,
+  maxHops: number = MAX_ROUTE_HOPS
+): SwapRoute<P> | null {
+  const routes = findPaths(pools, tokenIn, tokenOut, maxHops)
+    .map((path) => quotePathExactOut(path, tokenIn, amountOut))
+    .filter((route): route is SwapRoute<P> => route !== null)
+    .sort((a, b) => {
+      if (a.amountIn !== b.amountIn) return a.amountIn < b.amountIn ? -1 : 1;
+      return a.hops.length - b.hops.length;
+    });
+
+  return routes[0] ?? null;
+}
+
+/**
+ * Split `amountIn` across every pool of the pair (one per fee tier, plus any stable pool)
+ * to maximize total output. Each chunk goes to the pool with the best marginal output;
+ * both curves are concave in the input, so this lands within one chunk of the optimal allocation.
+ * Returns null if no pool holds the pair.
+ */
+export function findBestSplit<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  amountIn: bigint,
+  steps: number = SPLIT_STEPS
+): SplitRoute<P> | null {
+  const candidates = findPaths(pools, tokenIn, tokenOut, 1).map(([pool]) => pool);
+  if (candidates.length === 0 || amountIn === 0n) return null;
+
+  const outputFor = (pool: P, amount: bigint) => {
+    if (amount === 0n) return 0n;
+    return quoteHopOutput(pool, pool.tokenA === tokenIn, amount);
+  };
+
+  const allocations = candidates.map(() => 0n);
+  const chunk = amountIn / BigInt(steps) > 0n ? amountIn / BigInt(steps) : amountIn;
+  let remaining = amountIn;
+
+  while (remaining > 0n) {
+    const amount = remaining < 2n * chunk ? remaining : chunk;
+
+    let bestIndex = 0;
+    let bestGain = -1n;
+    candidates.forEach((pool, index) => {
+      const gain = outputFor(pool, allocations[index] + amount) - outputFor(pool, allocations[index]);
+      if (gain > bestGain) {
+        bestGain = gain;
+        bestIndex = index;
+      }
+    });
+
+    allocations[bestIndex] += amount;
+    remaining -= amount;
+  }
+
+  const legs = candidates
+    .map((pool, index) => ({ pool, amount: allocations[index] }))
+    .filter(({ amount }) => amount > 0n)
+    .sort((a, b) => (a.amount > b.amount ? -1 : a.amount < b.amount ? 1 : 0))
+    .map(({ pool, amount }) => quotePath([pool], tokenIn, amount));
+
+  return combineRoutes(legs, tokenIn, tokenOut);
+}
+
+/**
+ * Find the best way to fill an order: the single best route, or a split across the
+ * pair's fee tiers when that returns more. Returns null if no connected route outputs anything.
+ */
+export function findBestTrade<P extends RoutablePool>(
+  pools: P[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol,
+  amountIn: bigint,
+  maxHops: number = MAX_ROUTE_HOPS
+): SplitRoute<P> | null {
+  const route = findBestRoute(pools, tokenIn, tokenOut, amountIn, maxHops);
+  if (!route) return null;
+
+  const split = findBestSplit(pools, tokenIn, tokenOut, amountIn);
+  if (split && split.legs.length > 1 && split.amountOut > route.amountOut) {
+    return split;
+  }
+
+  return toSplitRoute(route);
+}
+
+/**
+ * Wrap a single route as a one-leg SplitRoute
+ */
+export function toSplitRoute<P extends RoutablePool>(route: SwapRoute<P>): SplitRoute<P> {
+  return combineRoutes([route], route.tokenIn, route.tokenOut);
+}
+
+/**
+ * Total a set of legs into a SplitRoute
+ */
+function combineRoutes<P extends RoutablePool>(
+  legs: SwapRoute<P>[],
+  tokenIn: TokenSymbol,
+  tokenOut: TokenSymbol
+): SplitRoute<P> {
+  const amountIn = legs.reduce((sum, leg) => sum + leg.amountIn, 0n);
+  const amountOut = legs.reduce((sum, leg) => sum + leg.amountOut, 0n);
+  const weightedImpact = legs.reduce((sum, leg) => sum + Number(leg.amountIn) * leg.priceImpactBps, 0);
+
+  return {
+    legs,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOut,
+    priceImpactBps: amountIn > 0n ? Math.round(weightedImpact / Number(amountIn)) : 0,
+  };
+}
+
+/**
+ * Spot exchange rate along a route (output per input, ignoring fees and impact)
+ */
+export function getRouteSpotRate(route: SwapRoute, decimalsIn: number, decimalsOut: number): number {
+  let rate = 1;
+  for (const hop of route.hops) {
+    const reserveIn = hop.isAToB ? hop.pool.reserveA : hop.pool.reserveB;
+    const reserveOut = hop.isAToB ? hop.pool.reserveB : hop.pool.reserveA;
+
+    if (hop.pool.stable) {
+      // The stable curve is flat near balance, so use a fee-free quote of 0.01% of the reserve
+      const referenceIn = reserveIn / 10000n > 0n ? reserveIn / 10000n : 1n;
+      const amp = getCurrentAmplification(hop.pool.stable);
+      rate *= Number(calculateStableSwapOutput(referenceIn, reserveIn, reserveOut, amp, 0)) / Number(referenceIn);
+    } else {
+      rate *= Number(reserveOut) / Number(reserveIn);
+    }
+  }
+  return rate * Math.pow(10, decimalsIn - decimalsOut);
+}
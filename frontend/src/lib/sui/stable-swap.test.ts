@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import {
+  calculateStableD,
+  calculateStableLpTokens,
+  calculateStableSwapOutput,
+  calculateStableY,
+  StableMathOverflowError,
+} from "./stable-swap";
+
+// Expected values come from evaluating stable_swap_pool.move's calculate_d, calculate_y and
+// calculate_swap_output line by line with u128 checks. `d * d * d` in calculate_d starts at
+// (2 * 10^18)^3 for the smallest non-empty pool, so calculate_d aborts for every such pool.
+
+describe("calculateStableD", () => {
+  it("aborts on u128 overflow for any non-empty pool", () => {
+    expect(() => calculateStableD(1n, 1n, 1)).toThrow(StableMathOverflowError);
+    expect(() => calculateStableD(1_000_000_000000n, 1_000_000_000000n, 100)).toThrow(StableMathOverflowError);
+  });
+
+  it("is zero for an empty pool", () => {
+    expect(calculateStableD(0n, 0n, 100)).toBe(0n);
+  });
+});
+
+describe("calculateStableY", () => {
+  it("matches calculate_y", () => {
+    expect(calculateStableY(1100n, 2005n, 100)).toBe(905n);
+    expect(calculateStableY(1_100_000000n, 2005012531n, 100)).toBe(905060124n);
+    expect(calculateStableY(2_000_000_000000n, 2005012531328n, 100)).toBe(50188087651n);
+  });
+
+  it("aborts on u128 overflow", () => {
+    expect(() => calculateStableY(1n, 10n ** 13n, 1)).toThrow(StableMathOverflowError);
+  });
+});
+
+describe("calculateStableSwapOutput", () => {
+  it("returns 0 where calculate_d overflows and the swap aborts", () => {
+    expect(calculateStableSwapOutput(100n, 1000n, 1000n, 100, 5)).toBe(0n);
+    expect(calculateStableSwapOutput(1_000000n, 1_000_000_000000n, 1_000_000_000000n, 100, 5)).toBe(0n);
+  });
+
+  it("returns 0 for an empty input or reserve", () => {
+    expect(calculateStableSwapOutput(0n, 1000n, 1000n, 100, 5)).toBe(0n);
+    expect(calculateStableSwapOutput(100n, 0n, 1000n, 100, 5)).toBe(0n);
+  });
+});
+
+describe("calculateStableLpTokens", () => {
+  it("mints nothing where calculate_d overflows and the deposit aborts", () => {
+    expect(calculateStableLpTokens(1_000_000000n, 1_000_000000n, 0n, 0n, 0n, 100)).toBe(0n);
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * StableSwap math ported from stable_swap_pool.move.
+ * Every step keeps the Move operation order so integer division rounds the same way,
+ * and every u128 intermediate is bounds-checked so inputs that abort on-chain don't quote.
+ */
+
+/** Newton iteration cap (MAX_ITERATIONS) */
+const MAX_ITERATIONS = 255;
+
+/** Fixed-point precision used by the pool (PRECISION) */
+const PRECISION = 1_000_000_000_000_000_000n; // 10^18
+
+/** Largest u128, the width of every intermediate in the Move math */
+const U128_MAX = (1n << 128n) - 1n;
+
+/**
+ * Thrown where the Move math overflows u128 and the transaction would abort
+ */
+export class StableMathOverflowError extends Error {
+  constructor() {
+    super("StableSwap math overflows u128; the pool would abort this operation");
+    this.name = "StableMathOverflowError";
+  }
+}
+
+/**
+ * Pass a u128 intermediate through, throwing where Move's checked arithmetic aborts
+ */
+function u128(value: bigint): bigint {
+  if (value > U128_MAX) {
+    throw new StableMathOverflowError();
+  }
+  return value;
+}
+
+/**
+ * Amplification ramp fields stored on a StableSwapPool
+ */
+export interface AmplificationRamp {
+  amplification: number;
+  futureAmplification: number;
+  /** Ramp start in ms */
+  rampStartTime: number;
+  /** Ramp end in ms (0 when no ramp is scheduled) */
+  rampEndTime: number;
+}
+
+/**
+ * Amplification coefficient the pool applies to swaps and deposits.
+ * Port of `get_current_amplification`, which returns the stored value and ignores any ramp,
+ * so quotes and slippage floors must use this rather than `getRampedAmplification`.
+ */
+export function getCurrentAmplification(ramp: Pick<AmplificationRamp, "amplification">): number {
+  return ramp.amplification;
+}
+
+/**
+ * Amplification a ramp is scheduled to reach at `nowMs`, linearly interpolated
+ * from `amplification` towards `futureAmplification`. For display only: the
+ * deployed contract keeps using the stored value until the ramp is stopped.
+ */
+export function getRampedAmplification(ramp: AmplificationRamp, nowMs: number = Date.now()): number {
+  const { amplification, futureAmplification, rampStartTime, rampEndTime } = ramp;
+
+  if (rampEndTime === 0 || futureAmplification === amplification) {
+    return amplification;
+  }
+  if (nowMs >= rampEndTime) {
+    return futureAmplification;
+  }
+  if (nowMs <= rampStartTime) {
+    return amplification;
+  }
+
+  const elapsed = BigInt(nowMs - rampStartTime);
+  const duration = BigInt(rampEndTime - rampStartTime);
+  const a0 = BigInt(amplification);
+  const a1 = BigInt(futureAmplification);
+
+  // Same floor rounding as u64 arithmetic in either direction
+  const current = a1 > a0
+    ? a0 + ((a1 - a0) * elapsed) / duration
+    : a0 - ((a0 - a1) * elapsed) / duration;
+
+  return Number(current);
+}
+
+/**
+ * Calculate D (the invariant) for a two-coin stable pool.
+ * Port of `calculate_d`; throws StableMathOverflowError where it aborts.
+ */
+export function calculateStableD(reserveA: bigint, reserveB: bigint, amplification: number): bigint {
+  const x = u128(reserveA * PRECISION);
+  const y = u128(reserveB * PRECISION);
+  const s = u128(x + y);
+
+  if (s === 0n) {
+    return 0n;
+  }
+
+  const ann = BigInt(amplification) * 4n; // A * n^n where n=2
+
+  let d = s;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    // D^3 / (4 * x * y)
+    const dP = u128(u128(d * d) * d) / (u128(u128(4n * x) * y) / PRECISION);
+
+    const dPrev = d;
+
+    // D = (4A * S + 2 * D_P) * D / ((4A - 1) * D + 3 * D_P)
+    const numerator = u128(u128(u128(ann * s) / PRECISION + u128(2n * dP)) * d);
+    const denominator = u128(u128((ann - 1n) * d) + u128(3n * dP));
+
+    if (denominator === 0n) {
+      break;
+    }
+
+    d = numerator / denominator;
+
+    const diff = d > dPrev ? d - dPrev : dPrev - d;
+    if (diff <= 1n) {
+      break;
+    }
+  }
+
+  return d;
+}
+
+/**
+ * Solve for the new output reserve given the new input reserve and D.
+ * Port of `calculate_y`; `x` is unscaled while `d` is scaled, as on-chain.
+ * Throws StableMathOverflowError where it aborts.
+ */
+export function calculateStableY(x: bigint, d: bigint, amplification: number): bigint {
+  const ann = BigInt(amplification) * 4n;
+
+  // c = D^3 / (4 * x * A * n^n)
+  const c = u128(u128(d * d) * d) / u128(u128(4n * x) * ann);
+
+  // b = x + D / (A * n^n)
+  const b = u128(x + d / ann);
+
+  let y = d;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const yPrev = y;
+
+    // y = (y^2 + c) / (2 * y + b - D)
+    const numerator = u128(u128(y * y) + c);
+    const denominator = u128(u128(2n * y) + b);
+
+    if (denominator <= d) {
+      break;
+    }
+
+    y = numerator / (denominator - d);
+
+    const diff = y > yPrev ? y - yPrev : yPrev - y;
+    if (diff <= 1n) {
+      break;
+    }
+  }
+
+  return y;
+}
+
+/**
+ * Calculate LP tokens minted for a stable pool deposit.
+ * Port of the mint logic in `create_stable_pool` / `add_liquidity`: the first deposit
+ * mints D (less MINIMUM_LIQUIDITY for the creator), later ones mint in proportion to D's growth.
+ * Returns 0 where the Move math overflows and the deposit would abort.
+ */
+export function calculateStableLpTokens(
+  amountA: bigint,
+  amountB: bigint,
+  reserveA: bigint,
+  reserveB: bigint,
+  totalSupply: bigint,
+  amplification: number
+): bigint {
+  try {
+    const dAfter = calculateStableD(reserveA + amountA, reserveB + amountB, amplification);
+
+    if (totalSupply === 0n) {
+      const lpTokens = dAfter / PRECISION - 1000n;
+      return lpTokens > 0n ? lpTokens : 0n;
+    }
+
+    const dBefore = calculateStableD(reserveA, reserveB, amplification);
+    if (dBefore === 0n) {
+      return 0n;
+    }
+
+    return u128((dAfter - dBefore) * totalSupply) / dBefore;
+  } catch (error) {
+    if (error instanceof StableMathOverflowError) return 0n;
+    throw error;
+  }
+}
+
+/**
+ * Calculate the output of a stable pool swap (client-side estimation).
+ * Port of `calculate_swap_output`; pass the amplification from `getCurrentAmplification`.
+ * Returns 0 wherever the Move version aborts, so routers treat the pool as unquotable.
+ */
+export function calculateStableSwapOutput(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amplification: number,
+  feeTierBps: number
+): bigint {
+  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) {
+    return 0n;
+  }
+
+  // Apply fee to input (math::calculate_fee_amount)
+  const amountInAfterFee = amountIn - (amountIn * BigInt(feeTierBps)) / 10000n;
+
+  try {
+    const x = u128(reserveIn * PRECISION);
+    const y = u128(reserveOut * PRECISION);
+
+    const d = calculateStableD(reserveIn, reserveOut, amplification);
+
+    const newX = u128(x + u128(amountInAfterFee * PRECISION));
+    const newY = calculateStableY(newX / PRECISION, d, amplification);
+
+    // The Move version aborts on underflow here; report no output instead
+    if (u128(newY * PRECISION) >= y) {
+      return 0n;
+    }
+
+    const dy = y - newY * PRECISION;
+
+    return dy / PRECISION;
+  } catch (error) {
+    if (error instanceof StableMathOverflowError) return 0n;
+    throw error;
+  }
+}
+
+/**
+ * Calculate the price impact of a stable pool swap in basis points.
+ * The spot rate is taken from a fee-free quote of 0.01% of the input reserve.
+ */
+export function calculateStablePriceImpact(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amplification: number,
+  feeTierBps: number
+): number {
+  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) {
+    return 0;
+  }
+
+  const referenceIn = reserveIn / 10000n > 0n ? reserveIn / 10000n : 1n;
+  const referenceOut = calculateStableSwapOutput(referenceIn, reserveIn, reserveOut, amplification, 0);
+  if (referenceOut === 0n) {
+    return 0;
+  }
+
+  const spotPrice = (referenceOut * 10000n * PRECISION) / referenceIn;
+
+  const amountOut = calculateStableSwapOutput(amountIn, reserveIn, reserveOut, amplification, feeTierBps);
+  const effectivePrice = (amountOut * 10000n * PRECISION) / amountIn;
+
+  const impact = Number(((spotPrice - effectivePrice) * 10000n) / spotPrice);
+
+  return Math.max(0, impact);
+}
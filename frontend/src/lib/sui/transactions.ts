@@ -1,7 +1,6 @@
 import { Transaction } from "@mysten/sui/transactions";
 import { 
   PACKAGE_ID, 
-  POOL_FACTORY_ID, 
   CLOCK_ID, 
   MODULES,
   DEMO_TOKENS,
@@ -34,188 +33,132 @@ export function buildMintTokensTx(
 }
 
 /**
- * Build a transaction to create a new liquidity pool
+ * A position to claim fees for
  */
-export function buildCreatePoolTx(
-  coinAType: string,
-  coinBType: string,
-  coinAId: string,
-  coinBId: string,
-  feeTier: number
-): Transaction {
-  const tx = new Transaction();
-  
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::create_pool`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(POOL_FACTORY_ID),
-      tx.object(coinAId),
-      tx.object(coinBId),
-      tx.pure.u64(feeTier),
-      tx.object(CLOCK_ID),
-    ],
-  });
-  
-  return tx;
+export interface FeeClaim {
+  coinAType: string;
+  coinBType: string;
+  poolId: string;
+  positionId: string;
 }
 
 /**
- * Build a transaction to add liquidity to an existing pool
+ * Build a transaction to claim fees for one or more positions in a single PTB
+ * (fee_distributor::claim_fees_from_pool). The fee coins are sent to `recipient`.
+ * The current contract returns zero-value coins and still resets the position's fee credit.
  */
-export function buildAddLiquidityTx(
-  coinAType: string,
-  coinBType: string,
-  poolId: string,
-  coinAId: string,
-  coinBId: string,
-  minLpTokens: bigint
-): Transaction {
+export function buildClaimFeesTx(claims: FeeClaim[], recipient: string, packageId: string = PACKAGE_ID): Transaction {
+  if (claims.length === 0) {
+    throw new Error("No positions to claim fees for");
+  }
+
   const tx = new Transaction();
-  
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::add_liquidity`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(poolId),
-      tx.object(coinAId),
-      tx.object(coinBId),
-      tx.pure.u64(minLpTokens),
-      tx.object(CLOCK_ID),
-    ],
-  });
-  
+  const feeCoins = [];
+
+  for (const claim of claims) {
+    const [coinA, coinB] = tx.moveCall({
+      target: `${packageId}::${MODULES.FEE_DISTRIBUTOR}::claim_fees_from_pool`,
+      typeArguments: [claim.coinAType, claim.coinBType],
+      arguments: [
+        tx.object(claim.positionId),
+        tx.object(claim.poolId),
+        tx.object(CLOCK_ID),
+      ],
+    });
+    feeCoins.push(coinA, coinB);
+  }
+
+  tx.transferObjects(feeCoins, tx.pure.address(recipient));
+
   return tx;
 }
 
 /**
- * Build a transaction to remove liquidity from a pool
+ * Calculate the expected output amount for a swap (client-side estimation)
+ * Uses the constant product formula: output = (input * fee_factor * reserve_out) / (reserve_in + input * fee_factor)
+ * For StableSwapPool quotes use calculateStableSwapOutput instead.
  */
-export function buildRemoveLiquidityTx(
-  coinAType: string,
-  coinBType: string,
-  poolId: string,
-  positionId: string,
-  lpTokensToRemove: bigint,
-  minAmountA: bigint,
-  minAmountB: bigint
-): Transaction {
-  const tx = new Transaction();
+export function calculateSwapOutput(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeTierBps: number
+): bigint {
+  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) {
+    return 0n;
+  }
   
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::remove_liquidity`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(poolId),
-      tx.object(positionId),
-      tx.pure.u64(lpTokensToRemove),
-      tx.pure.u64(minAmountA),
-      tx.pure.u64(minAmountB),
-      tx.object(CLOCK_ID),
-    ],
-  });
+  const feeMultiplier = 10000n - BigInt(feeTierBps);
+  const amountInWithFee = amountIn * feeMultiplier;
+  const numerator = amountInWithFee * reserveOut;
+  const denominator = reserveIn * 10000n + amountInWithFee;
   
-  return tx;
+  return numerator / denominator;
 }
 
 /**
- * Build a transaction to swap token A for token B
+ * Calculate the input required to receive exactly `amountOut` (client-side estimation).
+ * Mirrors math::calculate_input_amount, rounding up; returns 0 when the pool can't fill it.
  */
-export function buildSwapAForBTx(
-  coinAType: string,
-  coinBType: string,
-  poolId: string,
-  coinInId: string,
-  minAmountOut: bigint
-): Transaction {
-  const tx = new Transaction();
-  
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::swap_a_for_b`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(poolId),
-      tx.object(coinInId),
-      tx.pure.u64(minAmountOut),
-    ],
-  });
-  
-  return tx;
+export function calculateSwapInput(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeTierBps: number
+): bigint {
+  if (amountOut === 0n || reserveIn === 0n || reserveOut === 0n || amountOut >= reserveOut) {
+    return 0n;
+  }
+
+  const numerator = reserveIn * amountOut * 10000n;
+  const denominator = (reserveOut - amountOut) * (10000n - BigInt(feeTierBps));
+
+  return numerator / denominator + 1n;
 }
 
 /**
- * Build a transaction to swap token B for token A
+ * Calculate the minimum output to accept for slippage (slippage_protection::calculate_min_output)
  */
-export function buildSwapBForATx(
-  coinAType: string,
-  coinBType: string,
-  poolId: string,
-  coinInId: string,
-  minAmountOut: bigint
-): Transaction {
-  const tx = new Transaction();
-  
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.POOL_FACTORY}::swap_b_for_a`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(poolId),
-      tx.object(coinInId),
-      tx.pure.u64(minAmountOut),
-    ],
-  });
-  
-  return tx;
+export function calculateMinOutput(expectedOutput: bigint, slippageBps: number): bigint {
+  return (expectedOutput * (10000n - BigInt(slippageBps))) / 10000n;
 }
 
 /**
- * Build a transaction to create a stable swap pool
+ * Encode a human price (tokenOut per 1 tokenIn) as a PriceLimitOrder `min_price`:
+ * raw output per raw input, times 10000, rounded down
  */
-export function buildCreateStablePoolTx(
-  coinAType: string,
-  coinBType: string,
-  coinAId: string,
-  coinBId: string,
-  amplification: number,
-  feeTier: number
-): Transaction {
-  const tx = new Transaction();
-  
-  tx.moveCall({
-    target: `${PACKAGE_ID}::${MODULES.STABLE_SWAP_POOL}::create_stable_pool`,
-    typeArguments: [coinAType, coinBType],
-    arguments: [
-      tx.object(coinAId),
-      tx.object(coinBId),
-      tx.pure.u64(amplification),
-      tx.pure.u64(feeTier),
-      tx.object(CLOCK_ID),
-    ],
-  });
-  
-  return tx;
+export function toLimitPrice(price: string, tokenIn: TokenSymbol, tokenOut: TokenSymbol): bigint {
+  const scaled = parseTokenAmount(price, DEMO_TOKENS[tokenOut].decimals + 4);
+  return scaled / 10n ** BigInt(DEMO_TOKENS[tokenIn].decimals);
 }
 
 /**
- * Calculate the expected output amount for a swap (client-side estimation)
- * Uses the constant product formula: output = (input * fee_factor * reserve_out) / (reserve_in + input * fee_factor)
+ * Decode a PriceLimitOrder price (raw ratio times 10000) into tokenOut per 1 tokenIn
  */
-export function calculateSwapOutput(
+export function fromLimitPrice(minPrice: bigint, tokenIn: TokenSymbol, tokenOut: TokenSymbol): number {
+  const decimalShift = DEMO_TOKENS[tokenIn].decimals - DEMO_TOKENS[tokenOut].decimals;
+  return (Number(minPrice) / 10000) * Math.pow(10, decimalShift);
+}
+
+/**
+ * Price a limit order would see right now, in the same raw ×10000 units as `min_price`
+ * (slippage_protection::can_execute_price_limit_order)
+ */
+export function calculateLimitPrice(
   amountIn: bigint,
   reserveIn: bigint,
   reserveOut: bigint,
   feeTierBps: number
 ): bigint {
-  if (amountIn === 0n || reserveIn === 0n || reserveOut === 0n) {
-    return 0n;
-  }
-  
-  const feeMultiplier = 10000n - BigInt(feeTierBps);
-  const amountInWithFee = amountIn * feeMultiplier;
-  const numerator = amountInWithFee * reserveOut;
-  const denominator = reserveIn * 10000n + amountInWithFee;
-  
-  return numerator / denominator;
+  if (amountIn === 0n) return 0n;
+  return (calculateSwapOutput(amountIn, reserveIn, reserveOut, feeTierBps) * 10000n) / amountIn;
+}
+
+/**
+ * Calculate the maximum input to allow for slippage (slippage_protection::calculate_max_input)
+ */
+export function calculateMaxInput(expectedInput: bigint, slippageBps: number): bigint {
+  return (expectedInput * (10000n + BigInt(slippageBps))) / 10000n;
 }
 
 /**
@@ -246,6 +189,22 @@ export function calculatePriceImpact(
   return Math.max(0, impact);
 }
 
+/**
+ * Calculate impermanent loss in basis points (port of math::calculate_impermanent_loss).
+ * `priceRatio` is new price / original price, scaled by 10000.
+ */
+export function calculateImpermanentLoss(priceRatio: bigint): number {
+  // IL = 2 * sqrt(price_ratio) / (1 + price_ratio) - 1
+  const sqrtRatio = bigIntSqrt(priceRatio * 10000n);
+
+  const numerator = 2n * sqrtRatio * 10000n;
+  const denominator = 10000n + priceRatio;
+
+  const hodlValueRatio = numerator / denominator;
+
+  return hodlValueRatio < 10000n ? Number(10000n - hodlValueRatio) : 0;
+}
+
 /**
  * Calculate LP tokens to receive for adding liquidity
  */
@@ -325,6 +284,24 @@ export function formatTokenAmount(amount: bigint, decimals: number, displayDecim
   return `${wholePart.toLocaleString()}.${displayFractional}`;
 }
 
+/**
+ * Format token amount as a plain decimal for an input field, without grouping
+ * separators so parseTokenAmount can read it back
+ */
+export function formatTokenInput(amount: bigint, decimals: number, displayDecimals: number = decimals): string {
+  const divisor = 10n ** BigInt(decimals);
+  const fractionalStr = (amount % divisor).toString().padStart(decimals, "0").slice(0, displayDecimals).replace(/0+$/, "");
+
+  return fractionalStr ? `${amount / divisor}.${fractionalStr}` : `${amount / divisor}`;
+}
+
+/**
+ * Whether a string is a plain decimal amount parseTokenAmount accepts, e.g. "12", "0.5" or ".5"
+ */
+export function isTokenAmountInput(input: string): boolean {
+  return /^(\d+\.?\d*|\.\d+)$/.test(input);
+}
+
 /**
  * Parse token amount from string input
  */